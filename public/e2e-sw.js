@@ -0,0 +1,65 @@
+// Relays a file that the page decrypts, so the browser saves it as an
+// ordinary download instead of the page holding all of it in memory.
+// The page sends a MessagePort for each download, then opens
+// /e2e-sw/<id>/<name>, and this worker pulls the file through the port.
+
+const downloads = new Map();
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("message", (event) => {
+  const { id, name, size } = event.data;
+  const port = event.ports[0];
+  if (!port) {
+    return;
+  }
+  downloads.set(id, { name, size, port });
+  port.postMessage({ type: "ready" });
+});
+
+self.addEventListener("fetch", (event) => {
+  const match = /^\/e2e-sw\/([^/]+)\//.exec(new URL(event.request.url).pathname);
+  const download = match ? downloads.get(match[1]) : undefined;
+  if (!download) {
+    return;
+  }
+  downloads.delete(match[1]);
+  const { name, size, port } = download;
+
+  const body = new ReadableStream({
+    pull(controller) {
+      return new Promise((resolve) => {
+        port.onmessage = ({ data }) => {
+          if (data.type === "chunk") {
+            controller.enqueue(data.chunk);
+          } else if (data.type === "done") {
+            controller.close();
+          } else {
+            controller.error(new Error(data.message));
+          }
+          resolve();
+        };
+        port.postMessage({ type: "pull" });
+      });
+    },
+    cancel() {
+      port.postMessage({ type: "cancel" });
+    },
+  });
+
+  event.respondWith(
+    new Response(body, {
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Length": String(size),
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(name)}`,
+      },
+    }),
+  );
+});
@@ -0,0 +1,273 @@
+import {
+  ActionIcon,
+  Button,
+  Group,
+  Paper,
+  Stack,
+  Table,
+  Text,
+  Title,
+  Tooltip,
+} from "@mantine/core";
+import type { ReactElement } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { formatBytes, formatRemaining } from "./format";
+import { IconTrash } from "./icons";
+
+interface BucketSummary {
+  bucket: string;
+  name: string | null;
+  shares: number;
+  size: number;
+  max: number | null;
+  downloads: number;
+}
+
+interface AdminShare {
+  id: string;
+  url: string;
+  expiresAt: number;
+  size: number;
+  fileCount: number;
+  downloads: number;
+}
+
+interface AdminPanelProps {
+  csrfToken: string;
+  onError: (message: string) => void;
+}
+
+function adminFetch(
+  path: string,
+  csrfToken: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  return fetch(`/api/admin/${path}`, {
+    ...init,
+    headers: { "X-CSRF-Token": csrfToken },
+  });
+}
+
+interface BucketSharesProps {
+  shares: AdminShare[];
+  onDelete: (id: string) => void;
+}
+
+function BucketShares({ shares, onDelete }: BucketSharesProps): ReactElement {
+  if (shares.length === 0) {
+    return (
+      <Text size="sm" c="dimmed">
+        Ingen delinger
+      </Text>
+    );
+  }
+  return (
+    <Stack gap="xs">
+      {shares.map((share) => (
+        <Group key={share.id} justify="space-between" wrap="nowrap">
+          <div>
+            <Text size="sm" component="a" href={share.url} target="_blank">
+              {share.id}
+            </Text>
+            <Text size="xs" c="dimmed">
+              {share.fileCount} fil{share.fileCount > 1 ? "er" : ""} ·{" "}
+              {formatBytes(share.size)} ·{" "}
+              {share.expiresAt < Date.now()
+                ? "utløpt"
+                : `utløper om ${formatRemaining(share.expiresAt)}`}{" "}
+              · {share.downloads} nedlastinger
+            </Text>
+          </div>
+          <Tooltip label="Slett deling">
+            <ActionIcon
+              color="red"
+              variant="subtle"
+              onClick={(): void => onDelete(share.id)}
+            >
+              <IconTrash size={16} />
+            </ActionIcon>
+          </Tooltip>
+        </Group>
+      ))}
+    </Stack>
+  );
+}
+
+// Renders nothing unless the login is the admin's
+export default function AdminPanel({
+  csrfToken,
+  onError,
+}: AdminPanelProps): ReactElement | null {
+  const [buckets, setBuckets] = useState<BucketSummary[] | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [shares, setShares] = useState<AdminShare[]>([]);
+  const [refresh, setRefresh] = useState(0);
+  const [cleanupResult, setCleanupResult] = useState<string | null>(null);
+
+  useEffect(() => {
+    // refresh is bumped after every change
+    void refresh;
+
+    const controller = new AbortController();
+    adminFetch("buckets", csrfToken, { signal: controller.signal })
+      .then((res) => (res.ok ? (res.json() as Promise<BucketSummary[]>) : null))
+      .then(setBuckets)
+      .catch(() => {
+        // Ignore abort errors
+      });
+
+    return (): void => {
+      controller.abort();
+    };
+  }, [csrfToken, refresh]);
+
+  useEffect(() => {
+    if (!(selected && buckets)) {
+      setShares([]);
+      return;
+    }
+    const controller = new AbortController();
+    adminFetch(`buckets/${selected}`, csrfToken, { signal: controller.signal })
+      .then((res) => (res.ok ? (res.json() as Promise<AdminShare[]>) : []))
+      .then(setShares)
+      .catch(() => {
+        // Ignore abort errors
+      });
+    return (): void => {
+      controller.abort();
+    };
+  }, [csrfToken, selected, buckets]);
+
+  const mutate = useCallback(
+    (path: string, method: string, failure: string): void => {
+      adminFetch(path, csrfToken, { method })
+        .then((res) => {
+          if (!res.ok) {
+            onError(failure);
+          }
+          setRefresh((n) => n + 1);
+        })
+        .catch(() => {
+          onError("Nettverksfeil");
+        });
+    },
+    [csrfToken, onError],
+  );
+
+  const handleDeleteShare = useCallback(
+    (id: string): void => {
+      if (selected && window.confirm("Slette delingen?")) {
+        mutate(`buckets/${selected}/${id}`, "DELETE", "Kunne ikke slette");
+      }
+    },
+    [selected, mutate],
+  );
+
+  const handlePurge = useCallback(
+    (bucket: string): void => {
+      if (window.confirm("Slette alle delinger i denne bøtta?")) {
+        mutate(`buckets/${bucket}`, "DELETE", "Kunne ikke tømme bøtta");
+      }
+    },
+    [mutate],
+  );
+
+  const handleCleanup = useCallback((): void => {
+    adminFetch("cleanup", csrfToken, { method: "POST" })
+      .then((res) =>
+        res.ok
+          ? (res.json() as Promise<{ shares: number; uploads: number }>)
+          : null,
+      )
+      .then((result) => {
+        if (!result) {
+          onError("Opprydding feilet");
+          return;
+        }
+        setCleanupResult(
+          `Slettet ${result.shares} delinger og ${result.uploads} avbrutte opplastinger`,
+        );
+        setRefresh((n) => n + 1);
+      })
+      .catch(() => {
+        onError("Nettverksfeil");
+      });
+  }, [csrfToken, onError]);
+
+  if (!buckets) {
+    return null;
+  }
+
+  return (
+    <Paper withBorder p="md">
+      <Group justify="space-between" mb="sm">
+        <Title order={4}>Administrasjon</Title>
+        <Button size="xs" variant="light" onClick={handleCleanup}>
+          Rydd opp nå
+        </Button>
+      </Group>
+      {cleanupResult ? (
+        <Text size="sm" c="dimmed" mb="sm">
+          {cleanupResult}
+        </Text>
+      ) : null}
+      <Table>
+        <Table.Thead>
+          <Table.Tr>
+            <Table.Th>Bøtte</Table.Th>
+            <Table.Th>Delinger</Table.Th>
+            <Table.Th>Brukt</Table.Th>
+            <Table.Th>Nedlastinger</Table.Th>
+            <Table.Th />
+          </Table.Tr>
+        </Table.Thead>
+        <Table.Tbody>
+          {buckets.map((b) => (
+            <Table.Tr key={b.bucket}>
+              <Table.Td>
+                <Text size="sm">{b.name ?? "Ukjent bruker"}</Text>
+                <Text size="xs" c="dimmed">
+                  {b.bucket}
+                </Text>
+              </Table.Td>
+              <Table.Td>{b.shares}</Table.Td>
+              <Table.Td>
+                {formatBytes(b.size)}
+                {b.max === null ? "" : ` / ${formatBytes(b.max)}`}
+              </Table.Td>
+              <Table.Td>{b.downloads}</Table.Td>
+              <Table.Td>
+                <Group gap={4} wrap="nowrap">
+                  <Button
+                    size="xs"
+                    variant="subtle"
+                    onClick={(): void =>
+                      setSelected(selected === b.bucket ? null : b.bucket)
+                    }
+                  >
+                    {selected === b.bucket ? "Skjul" : "Vis"}
+                  </Button>
+                  <Button
+                    size="xs"
+                    variant="subtle"
+                    color="red"
+                    onClick={(): void => handlePurge(b.bucket)}
+                    disabled={b.size === 0}
+                  >
+                    Tøm
+                  </Button>
+                </Group>
+              </Table.Td>
+            </Table.Tr>
+          ))}
+        </Table.Tbody>
+      </Table>
+      {selected ? (
+        <Stack gap="xs" mt="md">
+          <Title order={5}>Delinger i {selected}</Title>
+          <BucketShares shares={shares} onDelete={handleDeleteShare} />
+        </Stack>
+      ) : null}
+    </Paper>
+  );
+}
@@ -4,111 +4,107 @@ import {
   Button,
   Checkbox,
   Container,
-  CopyButton,
   Group,
+  NumberInput,
   Paper,
   Progress,
+  Select,
   Stack,
   Text,
   TextInput,
   Title,
-  Tooltip,
 } from "@mantine/core";
 import { Dropzone } from "@mantine/dropzone";
-import type { ChangeEvent, ReactElement } from "react";
-import { useCallback, useEffect, useState } from "react";
-import {
-  IconCheck,
-  IconCopy,
-  IconFile,
-  IconLink,
-  IconTrash,
-  IconUpload,
-  IconX,
-} from "./icons";
-
-interface UploadResult {
-  url: string;
-  fileCount: number;
-  burn: boolean;
-}
-
-function formatBytes(bytes: number): string {
-  if (bytes === 0) return "0 B";
-  const k = 1024;
-  const sizes = ["B", "KB", "MB", "GB"];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  const size = sizes[i] ?? "GB";
-  return `${(bytes / k ** i).toFixed(1)} ${size}`;
-}
-
-function uploadFiles(
-  files: File[],
-  password: string,
-  burn: boolean,
-  onProgress: (loaded: number, total: number) => void,
-): Promise<{ url: string }> {
-  return new Promise((resolve, reject) => {
-    const xhr = new XMLHttpRequest();
-    const formData = new FormData();
-
-    for (const file of files) {
-      formData.append("files", file);
-    }
-
-    if (burn) {
-      formData.append("burn", "true");
-    }
-
-    xhr.upload.addEventListener("progress", (e) => {
-      if (e.lengthComputable) {
-        onProgress(e.loaded, e.total);
-      }
-    });
-
-    xhr.addEventListener("load", () => {
-      if (xhr.status === 200) {
-        resolve(JSON.parse(xhr.responseText) as { url: string });
-      } else if (xhr.status === 401) {
-        reject(new Error("Ugyldig passord"));
-      } else {
-        reject(new Error(`Opplasting feilet: ${xhr.statusText}`));
-      }
-    });
-
-    xhr.addEventListener("error", () => {
-      reject(new Error("Nettverksfeil"));
-    });
-
-    xhr.open("POST", "/api/upload");
-    xhr.setRequestHeader("X-Password", password);
-    xhr.send(formData);
-  });
-}
+import type { ChangeEvent, FormEvent, ReactElement } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import AdminPanel from "./Admin";
+import { expiryOptions, formatBytes } from "./format";
+import { IconFile, IconTrash, IconUpload, IconX } from "./icons";
+import RequestList from "./Requests";
+import ShareList from "./Shares";
+import TokenList from "./Tokens";
+import UploadedShare from "./Uploaded";
+import type { UploadResult } from "./upload";
+import { hasPendingUpload, relativePath, uploadFiles } from "./upload";
 
 interface Quota {
+  name: string;
   used: number;
   max: number;
   available: number;
+  maxFileBytes: number;
+  maxTtlHours: number;
+  defaultTtlHours: number;
+  allowBurn: boolean;
+  allowPublic: boolean;
+}
+
+interface Session {
+  // Null when only the admin password was given
+  name: string | null;
+  admin: boolean;
+  csrfToken: string;
 }
 
 export default function App(): ReactElement {
+  const [session, setSession] = useState<Session | null>(null);
+  const [restoring, setRestoring] = useState(true);
   const [password, setPassword] = useState("");
+  const [loggingIn, setLoggingIn] = useState(false);
   const [queuedFiles, setQueuedFiles] = useState<File[]>([]);
   const [burn, setBurn] = useState(false);
+  const [downloadLimit, setDownloadLimit] = useState(1);
+  const [expiryHours, setExpiryHours] = useState<number | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [encrypt, setEncrypt] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [progress, setProgress] = useState({ loaded: 0, total: 0 });
-  const [results, setResults] = useState<UploadResult[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [quota, setQuota] = useState<Quota | null>(null);
   const [quotaRefresh, setQuotaRefresh] = useState(0);
+  const [pendingUpload, setPendingUpload] = useState(hasPendingUpload);
+  const [uploaded, setUploaded] = useState<UploadResult | null>(null);
 
   const totalSize = queuedFiles.reduce((sum, f) => sum + f.size, 0);
   const exceedsQuota = quota !== null && totalSize > quota.available;
+  const tooLarge =
+    quota !== null && queuedFiles.some((f) => f.size > quota.maxFileBytes);
+  const needsPassphrase = quota?.allowPublic === false && passphrase === "";
+  // Each file of an encrypted share is fetched on its own, so a limit would
+  // be used up before the recipient had them all
+  const limitedEncrypted =
+    encrypt && burn && quota?.allowBurn === true && queuedFiles.length > 1;
+  const expiryChoices = useMemo(
+    () =>
+      quota ? expiryOptions(quota.maxTtlHours, quota.defaultTtlHours) : [],
+    [quota],
+  );
+  const effectiveExpiry = Math.min(
+    expiryHours ?? quota?.defaultTtlHours ?? 24,
+    quota?.maxTtlHours ?? Number.POSITIVE_INFINITY,
+  );
 
-  // Fetch quota when password changes or after upload (debounced)
+  // Pick up a login from an earlier visit
   useEffect(() => {
-    if (!password) {
+    const controller = new AbortController();
+    fetch("/api/session", { signal: controller.signal })
+      .then((res) => (res.ok ? (res.json() as Promise<Session>) : null))
+      .then(setSession)
+      .catch(() => {
+        // Ignore abort errors
+      })
+      .finally(() => {
+        setRestoring(false);
+      });
+
+    return (): void => {
+      controller.abort();
+    };
+  }, []);
+
+  // Fetch quota on login and after upload
+  useEffect(() => {
+    if (!session?.name) {
       setQuota(null);
       return;
     }
@@ -117,39 +113,40 @@ export default function App(): ReactElement {
     void quotaRefresh;
 
     const controller = new AbortController();
-
-    // Debounce: wait 500ms after user stops typing
-    const timeoutId = setTimeout(() => {
-      fetch("/api/quota", {
-        headers: { "X-Password": password },
-        signal: controller.signal,
+    fetch("/api/quota", { signal: controller.signal })
+      .then((res) => {
+        if (res.ok) {
+          return res.json() as Promise<Quota>;
+        }
+        // The session expired or its password was changed
+        if (res.status === 401) {
+          setSession(null);
+        }
+        setQuota(null);
+        return null;
       })
-        .then((res) => {
-          if (res.ok) {
-            return res.json() as Promise<Quota>;
-          }
-          setQuota(null);
-          return null;
-        })
-        .then((data) => {
-          if (data) {
-            setQuota(data);
-          }
-        })
-        .catch(() => {
-          // Ignore abort errors
-        });
-    }, 500);
+      .then((data) => {
+        if (data) {
+          setQuota(data);
+        }
+      })
+      .catch(() => {
+        // Ignore abort errors
+      });
 
     return (): void => {
-      clearTimeout(timeoutId);
       controller.abort();
     };
-  }, [password, quotaRefresh]);
+  }, [session, quotaRefresh]);
 
   const handleDrop = useCallback((files: File[]): void => {
     setQueuedFiles((prev) => [...prev, ...files]);
     setError(null);
+    setUploaded(null);
+  }, []);
+
+  const handleCloseUploaded = useCallback((): void => {
+    setUploaded(null);
   }, []);
 
   const handleRemoveFile = useCallback((index: number): void => {
@@ -167,6 +164,53 @@ export default function App(): ReactElement {
     [],
   );
 
+  const handleLogin = useCallback(
+    (e: FormEvent<HTMLFormElement>): void => {
+      e.preventDefault();
+      setLoggingIn(true);
+      fetch("/api/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      })
+        .then(async (res) => {
+          if (res.ok) {
+            setSession((await res.json()) as Session);
+            setPassword("");
+            setError(null);
+          } else if (res.status === 429) {
+            setError("For mange forsøk. Prøv igjen senere.");
+          } else {
+            setError("Feil passord");
+          }
+        })
+        .catch(() => {
+          setError("Nettverksfeil");
+        })
+        .finally(() => {
+          setLoggingIn(false);
+        });
+    },
+    [password],
+  );
+
+  const handleLogout = useCallback((): void => {
+    if (!session) {
+      return;
+    }
+    fetch("/api/session", {
+      method: "DELETE",
+      headers: { "X-CSRF-Token": session.csrfToken },
+    })
+      .then(() => {
+        setSession(null);
+        setUploaded(null);
+      })
+      .catch(() => {
+        setError("Nettverksfeil");
+      });
+  }, [session]);
+
   const handleCloseError = useCallback((): void => {
     setError(null);
   }, []);
@@ -178,9 +222,38 @@ export default function App(): ReactElement {
     [],
   );
 
+  const handleDownloadLimitChange = useCallback(
+    (value: number | string): void => {
+      setDownloadLimit(typeof value === "number" ? value : 1);
+    },
+    [],
+  );
+
+  const handlePassphraseChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement>): void => {
+      setPassphrase(e.currentTarget.value);
+    },
+    [],
+  );
+
+  const handleEncryptChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement>): void => {
+      setEncrypt(e.currentTarget.checked);
+    },
+    [],
+  );
+
+  const handleSharesChanged = useCallback((): void => {
+    setQuotaRefresh((n) => n + 1);
+  }, []);
+
+  const handleExpiryChange = useCallback((value: string | null): void => {
+    setExpiryHours(value ? Number(value) : null);
+  }, []);
+
   const handleUpload = useCallback(async (): Promise<void> => {
-    if (!password) {
-      setError("Vennligst skriv inn et passord");
+    if (!session) {
+      setError("Du er ikke logget inn");
       return;
     }
     if (queuedFiles.length === 0) {
@@ -195,31 +268,43 @@ export default function App(): ReactElement {
     try {
       const result = await uploadFiles(
         queuedFiles,
-        password,
-        burn,
+        session.csrfToken,
+        {
+          maxDownloads:
+            burn && quota?.allowBurn !== false ? downloadLimit : null,
+          expiryHours: effectiveExpiry,
+          passphrase,
+          encrypt,
+        },
         (loaded, total) => {
           setProgress({ loaded, total });
         },
       );
 
-      setResults((prev) => [
-        {
-          url: window.location.origin + result.url,
-          fileCount: queuedFiles.length,
-          burn,
-        },
-        ...prev,
-      ]);
+      setUploaded(result);
       setQueuedFiles([]);
       setBurn(false);
+      setDownloadLimit(1);
+      setPassphrase("");
       setQuotaRefresh((n) => n + 1);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Opplasting feilet");
     } finally {
+      setPendingUpload(hasPendingUpload());
       setUploading(false);
       setProgress({ loaded: 0, total: 0 });
     }
-  }, [password, queuedFiles, burn, totalSize]);
+  }, [
+    session,
+    queuedFiles,
+    burn,
+    downloadLimit,
+    quota,
+    effectiveExpiry,
+    passphrase,
+    encrypt,
+    totalSize,
+  ]);
 
   const progressPercent =
     progress.total > 0 ? (progress.loaded / progress.total) * 100 : 0;
@@ -231,13 +316,35 @@ export default function App(): ReactElement {
           gravplass
         </Title>
 
-        <TextInput
-          label="Passord"
-          type="password"
-          placeholder="Skriv inn passord"
-          value={password}
-          onChange={handlePasswordChange}
-        />
+        {restoring ? null : session ? (
+          <Group justify="space-between" wrap="nowrap">
+            <Text size="sm" c="dimmed">
+              {quota
+                ? `Logget inn som ${quota.name} · ${formatBytes(quota.used)} av ${formatBytes(quota.max)} brukt`
+                : `Logget inn som ${session.name ?? "administrator"}`}
+            </Text>
+            <Button variant="subtle" size="xs" onClick={handleLogout}>
+              Logg ut
+            </Button>
+          </Group>
+        ) : (
+          <form onSubmit={handleLogin}>
+            <Group align="flex-end" wrap="nowrap">
+              <TextInput
+                label="Passord"
+                type="password"
+                autoComplete="current-password"
+                placeholder="Skriv inn passord"
+                value={password}
+                onChange={handlePasswordChange}
+                style={{ flex: 1 }}
+              />
+              <Button type="submit" loading={loggingIn} disabled={!password}>
+                Logg inn
+              </Button>
+            </Group>
+          </form>
+        )}
 
         {error ? (
           <Alert color="red" onClose={handleCloseError} withCloseButton>
@@ -245,7 +352,18 @@ export default function App(): ReactElement {
           </Alert>
         ) : null}
 
-        {quota === null ? null : (
+        {pendingUpload && !uploading ? (
+          <Alert color="blue">
+            En opplasting ble avbrutt. Legg til de samme filene og trykk
+            «Opprett deling» for å fortsette der den stoppet.
+          </Alert>
+        ) : null}
+
+        {session?.admin ? (
+          <AdminPanel csrfToken={session.csrfToken} onError={setError} />
+        ) : null}
+
+        {session === null || quota === null ? null : (
           <>
             <Dropzone onDrop={handleDrop} disabled={uploading} multiple>
               <Group
@@ -268,12 +386,16 @@ export default function App(): ReactElement {
                     Dra filer hit eller klikk for å velge
                   </Text>
                   <Text size="sm" c="dimmed" inline mt={7}>
-                    Legg til filer i delingen
+                    Legg til filer eller mapper i delingen
                   </Text>
                 </div>
               </Group>
             </Dropzone>
 
+            {uploaded ? (
+              <UploadedShare result={uploaded} onClose={handleCloseUploaded} />
+            ) : null}
+
             {queuedFiles.length > 0 ? (
               <Paper withBorder p="md">
                 <Group justify="space-between" mb="sm">
@@ -294,13 +416,13 @@ export default function App(): ReactElement {
                 <Stack gap="xs">
                   {queuedFiles.map((file, index) => (
                     <Group
-                      key={`${file.name}-${file.size}-${file.lastModified}`}
+                      key={`${relativePath(file)}-${file.size}-${file.lastModified}`}
                       justify="space-between"
                     >
                       <Group gap="xs">
                         <IconFile size={16} />
                         <Text size="sm" truncate style={{ maxWidth: 250 }}>
-                          {file.name}
+                          {relativePath(file)}
                         </Text>
                         <Text size="xs" c="dimmed">
                           {formatBytes(file.size)}
@@ -329,13 +451,60 @@ export default function App(): ReactElement {
               </Stack>
             ) : null}
 
+            <Select
+              label="Utløper etter"
+              data={expiryChoices}
+              value={String(effectiveExpiry)}
+              onChange={handleExpiryChange}
+              allowDeselect={false}
+              disabled={uploading}
+            />
+
+            <TextInput
+              label="Passord for nedlasting"
+              description={
+                quota.allowPublic
+                  ? "Valgfritt. Mottakeren må oppgi dette for å laste ned."
+                  : "Påkrevd. Mottakeren må oppgi dette for å laste ned."
+              }
+              required={!quota.allowPublic}
+              type="password"
+              autoComplete="new-password"
+              value={passphrase}
+              onChange={handlePassphraseChange}
+              disabled={uploading}
+            />
+
             <Checkbox
-              label="Slett etter første nedlasting"
-              checked={burn}
-              onChange={handleBurnChange}
+              label="Ende-til-ende-kryptering"
+              description="Filene krypteres i nettleseren, og nøkkelen finnes bare i lenken"
+              checked={encrypt}
+              onChange={handleEncryptChange}
               disabled={uploading}
             />
 
+            {quota.allowBurn ? (
+              <Checkbox
+                label="Slett etter nedlasting"
+                checked={burn}
+                onChange={handleBurnChange}
+                disabled={uploading}
+              />
+            ) : null}
+
+            {quota.allowBurn && burn ? (
+              <NumberInput
+                label="Antall nedlastinger før sletting"
+                description="Bare fullførte nedlastinger telles"
+                min={1}
+                max={10000}
+                allowDecimal={false}
+                value={downloadLimit}
+                onChange={handleDownloadLimitChange}
+                disabled={uploading}
+              />
+            ) : null}
+
             {exceedsQuota ? (
               <Alert color="orange">
                 Filene overskrider tilgjengelig plass (
@@ -343,60 +512,50 @@ export default function App(): ReactElement {
               </Alert>
             ) : null}
 
+            {tooLarge ? (
+              <Alert color="orange">
+                Enkeltfiler kan være maks {formatBytes(quota.maxFileBytes)}
+              </Alert>
+            ) : null}
+
+            {limitedEncrypted ? (
+              <Alert color="orange">
+                Krypterte delinger med flere filer kan ikke slettes etter
+                nedlasting
+              </Alert>
+            ) : null}
+
             <Button
               size="lg"
               onClick={handleUpload}
-              disabled={queuedFiles.length === 0 || !password || exceedsQuota}
+              disabled={
+                queuedFiles.length === 0 ||
+                exceedsQuota ||
+                tooLarge ||
+                needsPassphrase ||
+                limitedEncrypted
+              }
               loading={uploading}
               leftSection={<IconUpload size={20} />}
             >
               Opprett deling
             </Button>
 
-            {results.length > 0 ? (
-              <Paper withBorder p="md">
-                <Title order={4} mb="sm">
-                  Dine delinger
-                </Title>
-                <Stack gap="xs">
-                  {results.map((result) => (
-                    <Group key={result.url} justify="space-between">
-                      <Group gap="xs">
-                        <IconLink size={16} />
-                        <Text size="sm">
-                          {result.fileCount} fil
-                          {result.fileCount > 1 ? "er" : ""}
-                          {result.burn ? " (engangs)" : ""}
-                        </Text>
-                      </Group>
-                      <CopyButton value={result.url}>
-                        {({
-                          copied,
-                          copy,
-                        }: {
-                          copied: boolean;
-                          copy: () => void;
-                        }): ReactElement => (
-                          <Tooltip label={copied ? "Kopiert!" : "Kopier lenke"}>
-                            <ActionIcon
-                              color={copied ? "teal" : "gray"}
-                              variant="subtle"
-                              onClick={copy}
-                            >
-                              {copied ? (
-                                <IconCheck size={16} />
-                              ) : (
-                                <IconCopy size={16} />
-                              )}
-                            </ActionIcon>
-                          </Tooltip>
-                        )}
-                      </CopyButton>
-                    </Group>
-                  ))}
-                </Stack>
-              </Paper>
-            ) : null}
+            <ShareList
+              csrfToken={session.csrfToken}
+              refresh={quotaRefresh}
+              expiryChoices={expiryChoices}
+              onChange={handleSharesChanged}
+              onError={setError}
+            />
+
+            <RequestList
+              csrfToken={session.csrfToken}
+              refresh={quotaRefresh}
+              onError={setError}
+            />
+
+            <TokenList csrfToken={session.csrfToken} onError={setError} />
           </>
         )}
       </Stack>
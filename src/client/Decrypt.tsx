@@ -0,0 +1,197 @@
+import {
+  Alert,
+  Button,
+  Container,
+  Group,
+  Loader,
+  Paper,
+  Stack,
+  Text,
+  Title,
+} from "@mantine/core";
+import type { ReactElement } from "react";
+import { useCallback, useEffect, useState } from "react";
+import type { EncryptedMeta } from "./e2e";
+import { decryptMeta, decryptStream, importKey } from "./e2e";
+import { formatBytes, formatRemaining } from "./format";
+import { IconFile } from "./icons";
+import { saveStream } from "./save";
+
+interface ShareInfo {
+  encryptedMeta: string;
+  // Stored under their index, with the encrypted size
+  files: { name: string; size: number }[];
+  expiresAt: number;
+  maxDownloads: number | null;
+  downloads: number;
+}
+
+interface DecryptedFile {
+  name: string;
+  size: number;
+  stored: string;
+  storedSize: number;
+}
+
+interface LoadedShare {
+  key: CryptoKey;
+  info: ShareInfo;
+  files: DecryptedFile[];
+}
+
+function matchFiles(meta: EncryptedMeta, info: ShareInfo): DecryptedFile[] {
+  return meta.files.flatMap((file, i) => {
+    const stored = info.files.find((f) => f.name === String(i));
+    return stored
+      ? [
+          {
+            name: file.name,
+            size: file.size,
+            stored: stored.name,
+            storedSize: stored.size,
+          },
+        ]
+      : [];
+  });
+}
+
+async function loadShare(): Promise<LoadedShare> {
+  const keyText = window.location.hash.slice(1);
+  if (!keyText) {
+    throw new Error("Lenken mangler nøkkelen. Kopier hele lenken på nytt.");
+  }
+  const res = await fetch(`${window.location.pathname}?info`);
+  if (res.status === 410) {
+    throw new Error("Delingen er utløpt");
+  }
+  if (!res.ok) {
+    throw new Error("Fant ikke delingen");
+  }
+  const info = (await res.json()) as ShareInfo;
+
+  let key: CryptoKey;
+  let meta: EncryptedMeta;
+  try {
+    key = await importKey(keyText);
+    meta = await decryptMeta(key, info.encryptedMeta);
+  } catch {
+    throw new Error("Nøkkelen i lenken passer ikke til delingen");
+  }
+  return { key, info, files: matchFiles(meta, info) };
+}
+
+// The page for an end-to-end encrypted share. The key is read from the
+// link's #fragment and everything is decrypted here, as it downloads.
+export default function DecryptShare(): ReactElement {
+  const [share, setShare] = useState<LoadedShare | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadShare().then(setShare, (err: unknown) => {
+      setError(err instanceof Error ? err.message : "Kunne ikke åpne delingen");
+    });
+  }, []);
+
+  const handleSave = useCallback(
+    async (file: DecryptedFile): Promise<void> => {
+      if (!share) {
+        return;
+      }
+      setSaving(file.stored);
+      setError(null);
+      try {
+        await saveStream(file.name, file.size, async () => {
+          const res = await fetch(
+            `${window.location.pathname}/${encodeURIComponent(file.stored)}`,
+          );
+          if (!(res.ok && res.body)) {
+            throw new Error("Nedlastingen feilet");
+          }
+          return res.body.pipeThrough(
+            decryptStream(share.key, file.storedSize),
+          );
+        });
+      } catch (err) {
+        // Closing the file picker isn't an error
+        if (!(err instanceof DOMException && err.name === "AbortError")) {
+          setError(
+            err instanceof Error && err.message
+              ? err.message
+              : "Kunne ikke dekryptere filen",
+          );
+        }
+      } finally {
+        setSaving(null);
+      }
+    },
+    [share],
+  );
+
+  const handleCloseError = useCallback((): void => {
+    setError(null);
+  }, []);
+
+  return (
+    <Container size="sm" py="xl">
+      <Stack gap="lg">
+        <Title order={1} ta="center">
+          gravplass
+        </Title>
+
+        {error ? (
+          <Alert color="red" onClose={handleCloseError} withCloseButton>
+            {error}
+          </Alert>
+        ) : null}
+
+        {share === null && error === null ? (
+          <Group justify="center">
+            <Loader />
+          </Group>
+        ) : null}
+
+        {share ? (
+          <Paper withBorder p="md">
+            <Title order={4} mb="xs">
+              Kryptert deling
+            </Title>
+            <Text size="sm" c="dimmed" mb="md">
+              Filene dekrypteres i nettleseren. Utløper om{" "}
+              {formatRemaining(share.info.expiresAt)}
+              {share.info.maxDownloads === null
+                ? ""
+                : ` · ${String(share.info.downloads)} av ${String(share.info.maxDownloads)} nedlastinger`}
+            </Text>
+            <Stack gap="xs">
+              {share.files.map((file) => (
+                <Group key={file.stored} justify="space-between" wrap="nowrap">
+                  <Group gap="xs" wrap="nowrap">
+                    <IconFile size={16} />
+                    <Text size="sm" truncate style={{ maxWidth: 300 }}>
+                      {file.name}
+                    </Text>
+                    <Text size="xs" c="dimmed">
+                      {formatBytes(file.size)}
+                    </Text>
+                  </Group>
+                  <Button
+                    size="xs"
+                    variant="light"
+                    loading={saving === file.stored}
+                    disabled={saving !== null && saving !== file.stored}
+                    onClick={(): void => {
+                      void handleSave(file);
+                    }}
+                  >
+                    Last ned
+                  </Button>
+                </Group>
+              ))}
+            </Stack>
+          </Paper>
+        ) : null}
+      </Stack>
+    </Container>
+  );
+}
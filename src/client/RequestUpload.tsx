@@ -0,0 +1,270 @@
+import {
+  ActionIcon,
+  Alert,
+  Button,
+  Container,
+  Group,
+  Loader,
+  Paper,
+  Progress,
+  Stack,
+  Text,
+  Title,
+} from "@mantine/core";
+import { Dropzone } from "@mantine/dropzone";
+import type { ReactElement } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { formatBytes, formatRemaining } from "./format";
+import { IconFile, IconTrash, IconUpload, IconX } from "./icons";
+import type { UploadedFile } from "./upload";
+import { relativePath, uploadToRequest } from "./upload";
+
+interface RequestInfo {
+  from: string;
+  message: string;
+  expiresAt: number;
+  maxFileBytes: number;
+  availableBytes: number;
+  // null for no cap
+  remainingFiles: number | null;
+}
+
+// /r/:requestId
+const requestId: string = window.location.pathname.split("/")[2] ?? "";
+
+// The page behind a file request link: a bare dropzone for someone without
+// a password. They see what they sent, never where it ended up.
+export default function RequestUpload(): ReactElement {
+  const [info, setInfo] = useState<RequestInfo | null>(null);
+  const [refresh, setRefresh] = useState(0);
+  const [queuedFiles, setQueuedFiles] = useState<File[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [progress, setProgress] = useState({ loaded: 0, total: 0 });
+  const [sent, setSent] = useState<UploadedFile[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // refresh is bumped after each upload, which uses up some of the room
+    void refresh;
+
+    const controller = new AbortController();
+    fetch(`/r/${requestId}?info`, { signal: controller.signal })
+      .then((res) => {
+        if (!res.ok) {
+          throw new Error("Forespørselen er utløpt eller trukket tilbake");
+        }
+        return res.json() as Promise<RequestInfo>;
+      })
+      .then(setInfo)
+      .catch((err: unknown) => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : "Nettverksfeil");
+        }
+      });
+
+    return (): void => {
+      controller.abort();
+    };
+  }, [refresh]);
+
+  const totalSize = queuedFiles.reduce((sum, f) => sum + f.size, 0);
+  const tooMany =
+    info !== null &&
+    info.remainingFiles !== null &&
+    queuedFiles.length > info.remainingFiles;
+  const tooLarge =
+    info !== null &&
+    (totalSize > info.availableBytes ||
+      queuedFiles.some((f) => f.size > info.maxFileBytes));
+
+  const handleDrop = useCallback((files: File[]): void => {
+    setQueuedFiles((prev) => [...prev, ...files]);
+    setError(null);
+    setSent(null);
+  }, []);
+
+  const handleRemoveFile = useCallback((index: number): void => {
+    setQueuedFiles((prev) => prev.filter((_, i) => i !== index));
+  }, []);
+
+  const handleCloseError = useCallback((): void => {
+    setError(null);
+  }, []);
+
+  const handleCloseSent = useCallback((): void => {
+    setSent(null);
+  }, []);
+
+  const handleUpload = useCallback(async (): Promise<void> => {
+    setUploading(true);
+    setError(null);
+    setProgress({ loaded: 0, total: totalSize });
+    try {
+      setSent(
+        await uploadToRequest(requestId, queuedFiles, (loaded, total) => {
+          setProgress({ loaded, total });
+        }),
+      );
+      setQueuedFiles([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Opplasting feilet");
+    } finally {
+      setUploading(false);
+      setProgress({ loaded: 0, total: 0 });
+      setRefresh((n) => n + 1);
+    }
+  }, [queuedFiles, totalSize]);
+
+  const progressPercent =
+    progress.total > 0 ? (progress.loaded / progress.total) * 100 : 0;
+
+  return (
+    <Container size="sm" py="xl">
+      <Stack gap="lg">
+        <Title order={1} ta="center">
+          gravplass
+        </Title>
+
+        {error ? (
+          <Alert color="red" onClose={handleCloseError} withCloseButton>
+            {error}
+          </Alert>
+        ) : null}
+
+        {info === null && error === null ? (
+          <Group justify="center">
+            <Loader />
+          </Group>
+        ) : null}
+
+        {info ? (
+          <>
+            <Paper withBorder p="md">
+              <Title order={4} mb="xs">
+                {info.from} ber deg sende filer
+              </Title>
+              {info.message ? (
+                <Text size="sm" mb="xs" style={{ whiteSpace: "pre-wrap" }}>
+                  {info.message}
+                </Text>
+              ) : null}
+              <Text size="xs" c="dimmed">
+                Plass igjen: {formatBytes(info.availableBytes)}
+                {info.remainingFiles === null
+                  ? ""
+                  : ` · ${String(info.remainingFiles)} filer til`}
+                {` · utløper om ${formatRemaining(info.expiresAt)}`}
+              </Text>
+            </Paper>
+
+            {sent ? (
+              <Alert
+                color="teal"
+                title="Takk! Filene er sendt."
+                withCloseButton
+                onClose={handleCloseSent}
+              >
+                <Stack gap={4}>
+                  {sent.map((file) => (
+                    <Text key={file.name} size="xs">
+                      {file.name} · {formatBytes(file.size)} · SHA-256{" "}
+                      {file.sha256.slice(0, 16)}…
+                    </Text>
+                  ))}
+                </Stack>
+              </Alert>
+            ) : null}
+
+            <Dropzone onDrop={handleDrop} disabled={uploading} multiple>
+              <Group
+                justify="center"
+                gap="xl"
+                style={{ minHeight: 120, pointerEvents: "none" }}
+              >
+                <Dropzone.Accept>
+                  <IconUpload size={50} stroke={1.5} />
+                </Dropzone.Accept>
+                <Dropzone.Reject>
+                  <IconX size={50} stroke={1.5} />
+                </Dropzone.Reject>
+                <Dropzone.Idle>
+                  <IconFile size={50} stroke={1.5} />
+                </Dropzone.Idle>
+
+                <Text size="lg" inline>
+                  Dra filer hit eller klikk for å velge
+                </Text>
+              </Group>
+            </Dropzone>
+
+            {queuedFiles.length > 0 ? (
+              <Paper withBorder p="md">
+                <Title order={4} mb="sm">
+                  {queuedFiles.length} fil{queuedFiles.length > 1 ? "er" : ""} (
+                  {formatBytes(totalSize)})
+                </Title>
+                <Stack gap="xs">
+                  {queuedFiles.map((file, index) => (
+                    <Group
+                      key={`${relativePath(file)}-${file.size}-${file.lastModified}`}
+                      justify="space-between"
+                    >
+                      <Group gap="xs">
+                        <IconFile size={16} />
+                        <Text size="sm" truncate style={{ maxWidth: 250 }}>
+                          {relativePath(file)}
+                        </Text>
+                        <Text size="xs" c="dimmed">
+                          {formatBytes(file.size)}
+                        </Text>
+                      </Group>
+                      <ActionIcon
+                        variant="subtle"
+                        color="red"
+                        onClick={(): void => handleRemoveFile(index)}
+                        disabled={uploading}
+                      >
+                        <IconTrash size={16} />
+                      </ActionIcon>
+                    </Group>
+                  ))}
+                </Stack>
+              </Paper>
+            ) : null}
+
+            {uploading ? (
+              <Stack gap="xs">
+                <Progress value={progressPercent} animated />
+                <Text size="sm" c="dimmed" ta="center">
+                  {formatBytes(progress.loaded)} / {formatBytes(progress.total)}
+                </Text>
+              </Stack>
+            ) : null}
+
+            {tooMany ? (
+              <Alert color="orange">
+                Du kan sende {info.remainingFiles} filer til
+              </Alert>
+            ) : null}
+
+            {tooLarge ? (
+              <Alert color="orange">
+                Filene er større enn det er plass til
+              </Alert>
+            ) : null}
+
+            <Button
+              size="lg"
+              onClick={handleUpload}
+              disabled={queuedFiles.length === 0 || tooMany || tooLarge}
+              loading={uploading}
+              leftSection={<IconUpload size={20} />}
+            >
+              Send filer
+            </Button>
+          </>
+        ) : null}
+      </Stack>
+    </Container>
+  );
+}
@@ -0,0 +1,264 @@
+import {
+  ActionIcon,
+  Button,
+  CopyButton,
+  Group,
+  NumberInput,
+  Paper,
+  Select,
+  Stack,
+  Text,
+  Textarea,
+  Title,
+  Tooltip,
+} from "@mantine/core";
+import type { ChangeEvent, ReactElement } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { formatBytes, formatRemaining } from "./format";
+import { IconCheck, IconCopy, IconTrash } from "./icons";
+
+interface RequestSummary {
+  id: string;
+  url: string;
+  message: string;
+  maxBytes: number | null;
+  maxFiles: number | null;
+  receivedBytes: number;
+  receivedFiles: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+const EXPIRY_CHOICES: { value: string; label: string }[] = [
+  { value: "1", label: "1 dag" },
+  { value: "7", label: "7 dager" },
+  { value: "30", label: "30 dager" },
+  { value: "90", label: "90 dager" },
+];
+
+interface RequestRowProps {
+  request: RequestSummary;
+  onDelete: (id: string) => void;
+}
+
+function RequestRow({ request, onDelete }: RequestRowProps): ReactElement {
+  const url = window.location.origin + request.url;
+  const details = [
+    `${request.receivedFiles} fil${request.receivedFiles === 1 ? "" : "er"} mottatt`,
+    request.maxBytes === null
+      ? formatBytes(request.receivedBytes)
+      : `${formatBytes(request.receivedBytes)} av ${formatBytes(request.maxBytes)}`,
+    `utløper om ${formatRemaining(request.expiresAt)}`,
+  ];
+  if (request.maxFiles !== null) {
+    details.push(`maks ${request.maxFiles} filer`);
+  }
+
+  return (
+    <Group justify="space-between" wrap="nowrap">
+      <div style={{ minWidth: 0 }}>
+        <Text size="sm" truncate>
+          {request.message || "Uten melding"}
+        </Text>
+        <Text size="xs" c="dimmed">
+          {details.join(" · ")}
+        </Text>
+      </div>
+      <Group gap={4} wrap="nowrap">
+        <CopyButton value={url}>
+          {({
+            copied,
+            copy,
+          }: {
+            copied: boolean;
+            copy: () => void;
+          }): ReactElement => (
+            <Tooltip label={copied ? "Kopiert!" : "Kopier lenke"}>
+              <ActionIcon
+                color={copied ? "teal" : "gray"}
+                variant="subtle"
+                onClick={copy}
+              >
+                {copied ? <IconCheck size={16} /> : <IconCopy size={16} />}
+              </ActionIcon>
+            </Tooltip>
+          )}
+        </CopyButton>
+        <Tooltip label="Trekk tilbake">
+          <ActionIcon
+            color="red"
+            variant="subtle"
+            onClick={(): void => onDelete(request.id)}
+          >
+            <IconTrash size={16} />
+          </ActionIcon>
+        </Tooltip>
+      </Group>
+    </Group>
+  );
+}
+
+interface RequestListProps {
+  csrfToken: string;
+  refresh: number;
+  onError: (message: string) => void;
+}
+
+// Links that let someone without a password send files into the bucket.
+// What they send shows up among the shares above.
+export default function RequestList({
+  csrfToken,
+  refresh: parentRefresh,
+  onError,
+}: RequestListProps): ReactElement {
+  const [requests, setRequests] = useState<RequestSummary[]>([]);
+  const [refresh, setRefresh] = useState(0);
+  const [message, setMessage] = useState("");
+  const [maxSizeMb, setMaxSizeMb] = useState<number | string>("");
+  const [maxFiles, setMaxFiles] = useState<number | string>("");
+  const [expiryDays, setExpiryDays] = useState("7");
+
+  useEffect(() => {
+    // Bumped here after changes, and by the parent after uploads
+    void refresh;
+    void parentRefresh;
+
+    const controller = new AbortController();
+    fetch("/api/requests", {
+      headers: { "X-CSRF-Token": csrfToken },
+      signal: controller.signal,
+    })
+      .then((res) => (res.ok ? (res.json() as Promise<RequestSummary[]>) : []))
+      .then(setRequests)
+      .catch(() => {
+        // Ignore abort errors
+      });
+
+    return (): void => {
+      controller.abort();
+    };
+  }, [csrfToken, refresh, parentRefresh]);
+
+  const handleMessageChange = useCallback(
+    (e: ChangeEvent<HTMLTextAreaElement>): void => {
+      setMessage(e.currentTarget.value);
+    },
+    [],
+  );
+
+  const handleExpiryChange = useCallback((value: string | null): void => {
+    setExpiryDays(value ?? "7");
+  }, []);
+
+  const handleCreate = useCallback((): void => {
+    fetch("/api/requests", {
+      method: "POST",
+      headers: {
+        "X-CSRF-Token": csrfToken,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ message, maxSizeMb, maxFiles, expiryDays }),
+    })
+      .then((res) => {
+        if (!res.ok) {
+          onError("Kunne ikke lage forespørselen");
+          return;
+        }
+        setMessage("");
+        setRefresh((n) => n + 1);
+      })
+      .catch(() => {
+        onError("Nettverksfeil");
+      });
+  }, [csrfToken, message, maxSizeMb, maxFiles, expiryDays, onError]);
+
+  const handleDelete = useCallback(
+    (id: string): void => {
+      if (
+        !window.confirm(
+          "Trekke tilbake forespørselen? Filer som alt er mottatt beholdes.",
+        )
+      ) {
+        return;
+      }
+      fetch(`/api/requests/${id}`, {
+        method: "DELETE",
+        headers: { "X-CSRF-Token": csrfToken },
+      })
+        .then((res) => {
+          if (!res.ok) {
+            onError("Kunne ikke trekke tilbake forespørselen");
+          }
+          setRefresh((n) => n + 1);
+        })
+        .catch(() => {
+          onError("Nettverksfeil");
+        });
+    },
+    [csrfToken, onError],
+  );
+
+  return (
+    <Paper withBorder p="md">
+      <Title order={4} mb="xs">
+        Filforespørsler
+      </Title>
+      <Text size="sm" c="dimmed" mb="sm">
+        Send lenken til noen som skal sende deg filer. De trenger ikke passord,
+        og bare du ser det de laster opp.
+      </Text>
+
+      {requests.length > 0 ? (
+        <Stack gap="sm" mb="md">
+          {requests.map((request) => (
+            <RequestRow
+              key={request.id}
+              request={request}
+              onDelete={handleDelete}
+            />
+          ))}
+        </Stack>
+      ) : null}
+
+      <Stack gap="xs">
+        <Textarea
+          label="Melding"
+          placeholder="f.eks. Send oss loggfilene fra serveren"
+          value={message}
+          onChange={handleMessageChange}
+          autosize
+          minRows={2}
+          maxLength={1000}
+        />
+        <Group grow>
+          <NumberInput
+            label="Maks størrelse (MB)"
+            placeholder="Ingen grense"
+            min={1}
+            allowDecimal={false}
+            value={maxSizeMb}
+            onChange={setMaxSizeMb}
+          />
+          <NumberInput
+            label="Maks antall filer"
+            placeholder="Ingen grense"
+            min={1}
+            allowDecimal={false}
+            value={maxFiles}
+            onChange={setMaxFiles}
+          />
+        </Group>
+        <Select
+          label="Utløper etter"
+          data={EXPIRY_CHOICES}
+          value={expiryDays}
+          onChange={handleExpiryChange}
+          allowDeselect={false}
+        />
+        <Button variant="light" onClick={handleCreate}>
+          Lag forespørsel
+        </Button>
+      </Stack>
+    </Paper>
+  );
+}
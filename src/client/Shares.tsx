@@ -0,0 +1,414 @@
+import {
+  ActionIcon,
+  Button,
+  CopyButton,
+  FileButton,
+  Group,
+  Menu,
+  Paper,
+  Progress,
+  Stack,
+  Text,
+  Title,
+  Tooltip,
+} from "@mantine/core";
+import type { ReactElement } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { formatBytes, formatRemaining } from "./format";
+import {
+  IconCheck,
+  IconClock,
+  IconCopy,
+  IconFile,
+  IconLink,
+  IconTrash,
+} from "./icons";
+import { addToShare } from "./upload";
+
+interface ShareSummary {
+  id: string;
+  url: string;
+  createdAt: number;
+  expiresAt: number;
+  size: number;
+  fileCount: number;
+  downloads: number;
+  maxDownloads: number | null;
+  protected: boolean;
+  encrypted: boolean;
+  fromRequest: boolean;
+}
+
+interface SharedFile {
+  name: string;
+  size: number;
+}
+
+interface ExpiryChoice {
+  value: string;
+  label: string;
+}
+
+interface ShareRowProps {
+  share: ShareSummary;
+  expiryChoices: ExpiryChoice[];
+  onExtend: (id: string, hours: number) => void;
+  onEdit: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function ShareRow({
+  share,
+  expiryChoices,
+  onExtend,
+  onEdit,
+  onDelete,
+}: ShareRowProps): ReactElement {
+  const url = window.location.origin + share.url;
+  const details = [
+    formatBytes(share.size),
+    `utløper om ${formatRemaining(share.expiresAt)}`,
+    share.maxDownloads === null
+      ? `${share.downloads} nedlasting${share.downloads === 1 ? "" : "er"}`
+      : `${share.downloads} av ${share.maxDownloads} nedlastinger`,
+  ];
+  if (share.protected) {
+    details.push("passordbeskyttet");
+  }
+  if (share.encrypted) {
+    details.push("kryptert");
+  }
+  if (share.fromRequest) {
+    details.push("mottatt via forespørsel");
+  }
+
+  return (
+    <Group justify="space-between" wrap="nowrap">
+      <Group gap="xs" wrap="nowrap">
+        <IconLink size={16} />
+        <div>
+          <Text size="sm">
+            {share.fileCount} fil{share.fileCount > 1 ? "er" : ""}
+          </Text>
+          <Text size="xs" c="dimmed">
+            {details.join(" · ")}
+          </Text>
+        </div>
+      </Group>
+      <Group gap={4} wrap="nowrap">
+        {/* The key was only ever in the uploader's copy of the link */}
+        {share.encrypted ? null : (
+          <CopyButton value={url}>
+            {({
+              copied,
+              copy,
+            }: {
+              copied: boolean;
+              copy: () => void;
+            }): ReactElement => (
+              <Tooltip label={copied ? "Kopiert!" : "Kopier lenke"}>
+                <ActionIcon
+                  color={copied ? "teal" : "gray"}
+                  variant="subtle"
+                  onClick={copy}
+                >
+                  {copied ? <IconCheck size={16} /> : <IconCopy size={16} />}
+                </ActionIcon>
+              </Tooltip>
+            )}
+          </CopyButton>
+        )}
+        {/* The server can't update an encrypted share's file list */}
+        {share.encrypted ? null : (
+          <Tooltip label="Endre filer">
+            <ActionIcon
+              color="gray"
+              variant="subtle"
+              onClick={(): void => onEdit(share.id)}
+            >
+              <IconFile size={16} />
+            </ActionIcon>
+          </Tooltip>
+        )}
+        <Menu position="bottom-end">
+          <Menu.Target>
+            <Tooltip label="Endre levetid">
+              <ActionIcon color="gray" variant="subtle">
+                <IconClock size={16} />
+              </ActionIcon>
+            </Tooltip>
+          </Menu.Target>
+          <Menu.Dropdown>
+            <Menu.Label>Utløper om</Menu.Label>
+            {expiryChoices.map((choice) => (
+              <Menu.Item
+                key={choice.value}
+                onClick={(): void => onExtend(share.id, Number(choice.value))}
+              >
+                {choice.label}
+              </Menu.Item>
+            ))}
+          </Menu.Dropdown>
+        </Menu>
+        <Tooltip label="Slett deling">
+          <ActionIcon
+            color="red"
+            variant="subtle"
+            onClick={(): void => onDelete(share.id)}
+          >
+            <IconTrash size={16} />
+          </ActionIcon>
+        </Tooltip>
+      </Group>
+    </Group>
+  );
+}
+
+interface ShareFilesProps {
+  shareId: string;
+  csrfToken: string;
+  onChange: () => void;
+  onError: (message: string) => void;
+}
+
+// The files in one share, to take some out or add more under the same link
+function ShareFiles({
+  shareId,
+  csrfToken,
+  onChange,
+  onError,
+}: ShareFilesProps): ReactElement {
+  const [files, setFiles] = useState<SharedFile[]>([]);
+  const [refresh, setRefresh] = useState(0);
+  const [adding, setAdding] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    // refresh is bumped after files are added or removed
+    void refresh;
+
+    const controller = new AbortController();
+    fetch(`/api/shares/${shareId}`, {
+      headers: { "X-CSRF-Token": csrfToken },
+      signal: controller.signal,
+    })
+      .then((res) =>
+        res.ok ? (res.json() as Promise<{ files: SharedFile[] }>) : null,
+      )
+      .then((data) => {
+        setFiles(data?.files ?? []);
+      })
+      .catch(() => {
+        // Ignore abort errors
+      });
+
+    return (): void => {
+      controller.abort();
+    };
+  }, [csrfToken, shareId, refresh]);
+
+  const handleRemove = useCallback(
+    (name: string): void => {
+      if (!window.confirm(`Fjerne ${name} fra delingen?`)) {
+        return;
+      }
+      fetch(`/api/shares/${shareId}/files/${encodeURIComponent(name)}`, {
+        method: "DELETE",
+        headers: { "X-CSRF-Token": csrfToken },
+      })
+        .then((res) => {
+          if (!res.ok) {
+            onError("Kunne ikke fjerne filen");
+          }
+          setRefresh((n) => n + 1);
+          onChange();
+        })
+        .catch(() => {
+          onError("Nettverksfeil");
+        });
+    },
+    [csrfToken, shareId, onChange, onError],
+  );
+
+  const handleAdd = useCallback(
+    (selected: File[]): void => {
+      const taken = new Set(files.map((f) => f.name.toLowerCase()));
+      if (selected.some((f) => taken.has(f.name.toLowerCase()))) {
+        onError("Det finnes alt en fil med det navnet i delingen");
+        return;
+      }
+      setAdding(true);
+      setProgress(0);
+      addToShare(shareId, selected, csrfToken, (loaded, total) => {
+        setProgress(total > 0 ? (loaded / total) * 100 : 0);
+      })
+        .then(() => {
+          setRefresh((n) => n + 1);
+          onChange();
+        })
+        .catch((err: unknown) => {
+          onError(err instanceof Error ? err.message : "Opplasting feilet");
+        })
+        .finally(() => {
+          setAdding(false);
+        });
+    },
+    [csrfToken, shareId, files, onChange, onError],
+  );
+
+  return (
+    <Stack gap="xs" pl="lg">
+      {files.map((file) => (
+        <Group key={file.name} justify="space-between" wrap="nowrap">
+          <Group gap="xs" wrap="nowrap">
+            <Text size="sm" truncate style={{ maxWidth: 250 }}>
+              {file.name}
+            </Text>
+            <Text size="xs" c="dimmed">
+              {formatBytes(file.size)}
+            </Text>
+          </Group>
+          <Tooltip label="Fjern fra delingen">
+            <ActionIcon
+              color="red"
+              variant="subtle"
+              onClick={(): void => handleRemove(file.name)}
+              disabled={adding || files.length === 1}
+            >
+              <IconTrash size={16} />
+            </ActionIcon>
+          </Tooltip>
+        </Group>
+      ))}
+      {adding ? <Progress value={progress} animated /> : null}
+      <FileButton onChange={handleAdd} multiple>
+        {(props: { onClick: () => void }): ReactElement => (
+          <Button {...props} variant="light" size="xs" loading={adding}>
+            Legg til filer
+          </Button>
+        )}
+      </FileButton>
+    </Stack>
+  );
+}
+
+interface ShareListProps {
+  csrfToken: string;
+  refresh: number;
+  expiryChoices: ExpiryChoice[];
+  onChange: () => void;
+  onError: (message: string) => void;
+}
+
+export default function ShareList({
+  csrfToken,
+  refresh,
+  expiryChoices,
+  onChange,
+  onError,
+}: ShareListProps): ReactElement | null {
+  const [shares, setShares] = useState<ShareSummary[]>([]);
+  const [editing, setEditing] = useState<string | null>(null);
+
+  useEffect(() => {
+    // refresh is bumped by the parent after uploads and changes
+    void refresh;
+
+    const controller = new AbortController();
+    fetch("/api/shares", {
+      headers: { "X-CSRF-Token": csrfToken },
+      signal: controller.signal,
+    })
+      .then((res) => (res.ok ? (res.json() as Promise<ShareSummary[]>) : []))
+      .then(setShares)
+      .catch(() => {
+        // Ignore abort errors
+      });
+
+    return (): void => {
+      controller.abort();
+    };
+  }, [csrfToken, refresh]);
+
+  const handleExtend = useCallback(
+    (id: string, hours: number): void => {
+      fetch(`/api/shares/${id}/extend`, {
+        method: "POST",
+        headers: {
+          "X-CSRF-Token": csrfToken,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ expiryHours: hours }),
+      })
+        .then((res) => {
+          if (!res.ok) {
+            onError("Kunne ikke endre levetid");
+          }
+          onChange();
+        })
+        .catch(() => {
+          onError("Nettverksfeil");
+        });
+    },
+    [csrfToken, onChange, onError],
+  );
+
+  const handleDelete = useCallback(
+    (id: string): void => {
+      if (!window.confirm("Slette delingen? Lenken slutter å virke.")) {
+        return;
+      }
+      fetch(`/api/shares/${id}`, {
+        method: "DELETE",
+        headers: { "X-CSRF-Token": csrfToken },
+      })
+        .then((res) => {
+          if (!res.ok) {
+            onError("Kunne ikke slette delingen");
+          }
+          onChange();
+        })
+        .catch(() => {
+          onError("Nettverksfeil");
+        });
+    },
+    [csrfToken, onChange, onError],
+  );
+
+  const handleEdit = useCallback((id: string): void => {
+    setEditing((current) => (current === id ? null : id));
+  }, []);
+
+  if (shares.length === 0) {
+    return null;
+  }
+
+  return (
+    <Paper withBorder p="md">
+      <Title order={4} mb="sm">
+        Dine delinger
+      </Title>
+      <Stack gap="sm">
+        {shares.map((share) => (
+          <Stack key={share.id} gap="xs">
+            <ShareRow
+              share={share}
+              expiryChoices={expiryChoices}
+              onExtend={handleExtend}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+            />
+            {editing === share.id ? (
+              <ShareFiles
+                shareId={share.id}
+                csrfToken={csrfToken}
+                onChange={onChange}
+                onError={onError}
+              />
+            ) : null}
+          </Stack>
+        ))}
+      </Stack>
+    </Paper>
+  );
+}
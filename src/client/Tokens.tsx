@@ -0,0 +1,260 @@
+import {
+  ActionIcon,
+  Alert,
+  Button,
+  Checkbox,
+  Code,
+  CopyButton,
+  Group,
+  Paper,
+  Select,
+  Stack,
+  Text,
+  TextInput,
+  Title,
+  Tooltip,
+} from "@mantine/core";
+import type { ChangeEvent, ReactElement } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { formatRemaining } from "./format";
+import { IconCheck, IconCopy, IconTrash } from "./icons";
+
+type Scope = "upload" | "quota" | "shares";
+
+interface TokenSummary {
+  id: string;
+  name: string;
+  scopes: Scope[];
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+const SCOPE_LABELS: Record<Scope, string> = {
+  upload: "Laste opp",
+  quota: "Se lagringsplass",
+  shares: "Administrere delinger",
+};
+
+const EXPIRY_CHOICES: { value: string; label: string }[] = [
+  { value: "30", label: "30 dager" },
+  { value: "90", label: "90 dager" },
+  { value: "365", label: "1 år" },
+  { value: "", label: "Aldri" },
+];
+
+interface TokenRowProps {
+  token: TokenSummary;
+  onRevoke: (id: string) => void;
+}
+
+function TokenRow({ token, onRevoke }: TokenRowProps): ReactElement {
+  const details = [
+    token.scopes.map((s) => SCOPE_LABELS[s].toLowerCase()).join(", "),
+    token.expiresAt === null
+      ? "utløper aldri"
+      : token.expiresAt < Date.now()
+        ? "utløpt"
+        : `utløper om ${formatRemaining(token.expiresAt)}`,
+  ];
+
+  return (
+    <Group justify="space-between" wrap="nowrap">
+      <div>
+        <Text size="sm">{token.name}</Text>
+        <Text size="xs" c="dimmed">
+          {details.join(" · ")}
+        </Text>
+      </div>
+      <Tooltip label="Trekk tilbake">
+        <ActionIcon
+          color="red"
+          variant="subtle"
+          onClick={(): void => onRevoke(token.id)}
+        >
+          <IconTrash size={16} />
+        </ActionIcon>
+      </Tooltip>
+    </Group>
+  );
+}
+
+interface TokenListProps {
+  csrfToken: string;
+  onError: (message: string) => void;
+}
+
+// API tokens for scripts and CI, so they don't need the password. A new
+// token is shown once, right after it is made.
+export default function TokenList({
+  csrfToken,
+  onError,
+}: TokenListProps): ReactElement {
+  const [tokens, setTokens] = useState<TokenSummary[]>([]);
+  const [refresh, setRefresh] = useState(0);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<string[]>(["upload"]);
+  const [expiryDays, setExpiryDays] = useState("90");
+  const [created, setCreated] = useState<string | null>(null);
+
+  useEffect(() => {
+    // refresh is bumped after tokens are made or revoked
+    void refresh;
+
+    const controller = new AbortController();
+    fetch("/api/tokens", {
+      headers: { "X-CSRF-Token": csrfToken },
+      signal: controller.signal,
+    })
+      .then((res) => (res.ok ? (res.json() as Promise<TokenSummary[]>) : []))
+      .then(setTokens)
+      .catch(() => {
+        // Ignore abort errors
+      });
+
+    return (): void => {
+      controller.abort();
+    };
+  }, [csrfToken, refresh]);
+
+  const handleNameChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement>): void => {
+      setName(e.currentTarget.value);
+    },
+    [],
+  );
+
+  const handleExpiryChange = useCallback((value: string | null): void => {
+    setExpiryDays(value ?? "");
+  }, []);
+
+  const handleCreate = useCallback((): void => {
+    fetch("/api/tokens", {
+      method: "POST",
+      headers: {
+        "X-CSRF-Token": csrfToken,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ name, scopes, expiryDays }),
+    })
+      .then(async (res) => {
+        if (!res.ok) {
+          onError("Kunne ikke lage nøkkelen");
+          return;
+        }
+        const { token } = (await res.json()) as { token: string };
+        setCreated(token);
+        setName("");
+        setRefresh((n) => n + 1);
+      })
+      .catch(() => {
+        onError("Nettverksfeil");
+      });
+  }, [csrfToken, name, scopes, expiryDays, onError]);
+
+  const handleRevoke = useCallback(
+    (id: string): void => {
+      if (!window.confirm("Trekke tilbake nøkkelen? Den slutter å virke.")) {
+        return;
+      }
+      fetch(`/api/tokens/${id}`, {
+        method: "DELETE",
+        headers: { "X-CSRF-Token": csrfToken },
+      })
+        .then((res) => {
+          if (!res.ok) {
+            onError("Kunne ikke trekke tilbake nøkkelen");
+          }
+          setRefresh((n) => n + 1);
+        })
+        .catch(() => {
+          onError("Nettverksfeil");
+        });
+    },
+    [csrfToken, onError],
+  );
+
+  const handleCloseCreated = useCallback((): void => {
+    setCreated(null);
+  }, []);
+
+  return (
+    <Paper withBorder p="md">
+      <Title order={4} mb="xs">
+        API-nøkler
+      </Title>
+      <Text size="sm" c="dimmed" mb="sm">
+        For skript og CI, så de slipper passordet ditt. Send nøkkelen som{" "}
+        <Code>Authorization: Bearer …</Code>
+      </Text>
+
+      {created ? (
+        <Alert
+          color="teal"
+          mb="sm"
+          withCloseButton
+          onClose={handleCloseCreated}
+          title="Nøkkelen vises bare nå"
+        >
+          <Group gap="xs" wrap="nowrap">
+            <Code style={{ wordBreak: "break-all" }}>{created}</Code>
+            <CopyButton value={created}>
+              {({
+                copied,
+                copy,
+              }: {
+                copied: boolean;
+                copy: () => void;
+              }): ReactElement => (
+                <ActionIcon
+                  color={copied ? "teal" : "gray"}
+                  variant="subtle"
+                  onClick={copy}
+                >
+                  {copied ? <IconCheck size={16} /> : <IconCopy size={16} />}
+                </ActionIcon>
+              )}
+            </CopyButton>
+          </Group>
+        </Alert>
+      ) : null}
+
+      {tokens.length > 0 ? (
+        <Stack gap="sm" mb="md">
+          {tokens.map((token) => (
+            <TokenRow key={token.id} token={token} onRevoke={handleRevoke} />
+          ))}
+        </Stack>
+      ) : null}
+
+      <Stack gap="xs">
+        <TextInput
+          label="Navn"
+          placeholder="f.eks. byggserver"
+          value={name}
+          onChange={handleNameChange}
+        />
+        <Checkbox.Group label="Tilgang" value={scopes} onChange={setScopes}>
+          <Group gap="md" mt={4}>
+            {Object.entries(SCOPE_LABELS).map(([scope, label]) => (
+              <Checkbox key={scope} value={scope} label={label} />
+            ))}
+          </Group>
+        </Checkbox.Group>
+        <Select
+          label="Utløper etter"
+          data={EXPIRY_CHOICES}
+          value={expiryDays}
+          onChange={handleExpiryChange}
+          allowDeselect={false}
+        />
+        <Button
+          variant="light"
+          onClick={handleCreate}
+          disabled={name.trim() === "" || scopes.length === 0}
+        >
+          Lag nøkkel
+        </Button>
+      </Stack>
+    </Paper>
+  );
+}
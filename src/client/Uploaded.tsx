@@ -0,0 +1,110 @@
+import {
+  Anchor,
+  Button,
+  CloseButton,
+  CopyButton,
+  Group,
+  Paper,
+  Stack,
+  Text,
+  Title,
+} from "@mantine/core";
+import type { ReactElement } from "react";
+import { formatBytes } from "./format";
+import { IconCheck, IconCopy } from "./icons";
+import type { UploadResult } from "./upload";
+
+interface UploadedShareProps {
+  result: UploadResult;
+  onClose: () => void;
+}
+
+// The link and the hashes the server computed, so the uploader can check
+// them against the originals and pass them on to recipients. The server
+// only ever sees ciphertext of an encrypted share, so there are no hashes
+// worth showing for one.
+export default function UploadedShare({
+  result,
+  onClose,
+}: UploadedShareProps): ReactElement {
+  const url = window.location.origin + result.url;
+  // The format `sha256sum -c` reads
+  const sums = result.files.map((f) => `${f.sha256}  ${f.name}\n`).join("");
+
+  return (
+    <Paper withBorder p="md">
+      <Group justify="space-between" mb="sm">
+        <Title order={4}>Delingen er klar</Title>
+        <CloseButton onClick={onClose} />
+      </Group>
+      <Group gap="xs" mb="sm" wrap="nowrap">
+        <Anchor href={url} target="_blank" size="sm" truncate>
+          {url}
+        </Anchor>
+        <CopyButton value={url}>
+          {({
+            copied,
+            copy,
+          }: {
+            copied: boolean;
+            copy: () => void;
+          }): ReactElement => (
+            <Button
+              size="xs"
+              variant="light"
+              color={copied ? "teal" : "blue"}
+              leftSection={
+                copied ? <IconCheck size={14} /> : <IconCopy size={14} />
+              }
+              onClick={copy}
+            >
+              {copied ? "Kopiert" : "Kopier lenke"}
+            </Button>
+          )}
+        </CopyButton>
+      </Group>
+      {result.encrypted ? (
+        <Text size="sm" c="dimmed">
+          Delingen er kryptert. Nøkkelen finnes bare i lenken, så den kan ikke
+          hentes igjen om lenken går tapt.
+        </Text>
+      ) : (
+        <>
+          <Stack gap="xs">
+            {result.files.map((file) => (
+              <div key={file.name}>
+                <Text size="sm">
+                  {file.name}{" "}
+                  <Text span size="xs" c="dimmed">
+                    {formatBytes(file.size)}
+                  </Text>
+                </Text>
+                <Text
+                  size="xs"
+                  c="dimmed"
+                  ff="monospace"
+                  style={{ wordBreak: "break-all" }}
+                >
+                  SHA-256 {file.sha256}
+                </Text>
+              </div>
+            ))}
+          </Stack>
+          <CopyButton value={sums}>
+            {({
+              copied,
+              copy,
+            }: {
+              copied: boolean;
+              copy: () => void;
+            }): ReactElement => (
+              <Button size="xs" variant="subtle" mt="sm" onClick={copy}>
+                {copied ? "Kopiert" : "Kopier sjekksummer"}
+              </Button>
+            )}
+          </CopyButton>
+        </>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,226 @@
+// End-to-end encryption for shares. Files are encrypted in the browser
+// before they are uploaded, and the key only travels in the link's
+// #fragment, which browsers never send to the server.
+//
+// An encrypted file is an 8-byte random prefix followed by records of up
+// to 64 KiB of plaintext, each sealed with AES-256-GCM. A record's IV is
+// the prefix and the record's index, and the last record is marked in the
+// additional data, so records can't be reordered, moved between files or
+// cut off without decryption failing.
+
+const RECORD_SIZE = 64 * 1024;
+const TAG_SIZE = 16;
+const PREFIX_SIZE = 8;
+const SEALED_SIZE: number = RECORD_SIZE + TAG_SIZE;
+
+// What the server keeps encrypted in place of the file names
+export interface EncryptedMeta {
+  files: { name: string; size: number; type: string }[];
+}
+
+// A file as it will be uploaded, encrypted a range at a time
+export interface EncryptedFile {
+  size: number;
+  slice: (start: number, end: number) => Promise<Blob>;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replaceAll("+", "-")
+    .replaceAll("/", "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replaceAll("-", "+").replaceAll("_", "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+export function generateKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+export async function exportKey(key: CryptoKey): Promise<string> {
+  return toBase64Url(new Uint8Array(await crypto.subtle.exportKey("raw", key)));
+}
+
+export function importKey(text: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    fromBase64Url(text),
+    { name: "AES-GCM" },
+    false,
+    ["decrypt"],
+  );
+}
+
+function recordCount(size: number): number {
+  return Math.max(1, Math.ceil(size / RECORD_SIZE));
+}
+
+export function encryptedSize(size: number): number {
+  return PREFIX_SIZE + recordCount(size) * TAG_SIZE + size;
+}
+
+function plainSize(encrypted: number): number {
+  const records = Math.max(
+    1,
+    Math.ceil((encrypted - PREFIX_SIZE) / SEALED_SIZE),
+  );
+  return encrypted - PREFIX_SIZE - records * TAG_SIZE;
+}
+
+function recordParams(
+  prefix: Uint8Array,
+  index: number,
+  last: boolean,
+): AesGcmParams {
+  const iv = new Uint8Array(PREFIX_SIZE + 4);
+  iv.set(prefix);
+  new DataView(iv.buffer).setUint32(PREFIX_SIZE, index);
+  return {
+    name: "AES-GCM",
+    iv,
+    additionalData: new Uint8Array([last ? 1 : 0]),
+  };
+}
+
+// Encrypting is deterministic once the prefix is chosen, so a range that
+// has to be sent again comes out the same
+export function encryptFile(file: Blob, key: CryptoKey): EncryptedFile {
+  const prefix = crypto.getRandomValues(new Uint8Array(PREFIX_SIZE));
+  const count = recordCount(file.size);
+  const size = encryptedSize(file.size);
+
+  async function sealRecord(index: number): Promise<ArrayBuffer> {
+    const start = index * RECORD_SIZE;
+    const plain = await file.slice(start, start + RECORD_SIZE).arrayBuffer();
+    return crypto.subtle.encrypt(
+      recordParams(prefix, index, index === count - 1),
+      key,
+      plain,
+    );
+  }
+
+  return {
+    size,
+    async slice(start: number, end: number): Promise<Blob> {
+      const parts: BlobPart[] = [];
+      const first = Math.max(
+        0,
+        Math.floor((start - PREFIX_SIZE) / SEALED_SIZE),
+      );
+      const last = Math.min(
+        count - 1,
+        Math.floor((end - 1 - PREFIX_SIZE) / SEALED_SIZE),
+      );
+      // Offset in the encrypted file where parts begins
+      let offset = PREFIX_SIZE + first * SEALED_SIZE;
+      if (start < PREFIX_SIZE) {
+        parts.push(prefix);
+        offset = 0;
+      }
+      for (let index = first; index <= last; index++) {
+        parts.push(await sealRecord(index));
+      }
+      return new Blob(parts).slice(start - offset, end - offset);
+    },
+  };
+}
+
+// Decrypts a whole encrypted file as it streams in. size is the encrypted
+// size, which tells which record is the last.
+export function decryptStream(
+  key: CryptoKey,
+  size: number,
+): TransformStream<Uint8Array, Uint8Array> {
+  const count = recordCount(plainSize(size));
+  let buffered = new Uint8Array(0);
+  let prefix: Uint8Array | null = null;
+  let index = 0;
+
+  async function openRecord(
+    sealed: Uint8Array<ArrayBuffer>,
+  ): Promise<Uint8Array> {
+    if (!prefix || index >= count) {
+      throw new Error("Ugyldig kryptert fil");
+    }
+    const plain = await crypto.subtle.decrypt(
+      recordParams(prefix, index, index === count - 1),
+      key,
+      sealed,
+    );
+    index += 1;
+    return new Uint8Array(plain);
+  }
+
+  return new TransformStream({
+    async transform(
+      chunk: Uint8Array,
+      controller: TransformStreamDefaultController<Uint8Array>,
+    ): Promise<void> {
+      const joined = new Uint8Array(buffered.length + chunk.length);
+      joined.set(buffered);
+      joined.set(chunk, buffered.length);
+      let pos = 0;
+      if (!prefix) {
+        if (joined.length < PREFIX_SIZE) {
+          buffered = joined;
+          return;
+        }
+        prefix = joined.slice(0, PREFIX_SIZE);
+        pos = PREFIX_SIZE;
+      }
+      // The last record is left for flush, since it may be short
+      while (joined.length - pos > SEALED_SIZE) {
+        controller.enqueue(
+          await openRecord(joined.slice(pos, pos + SEALED_SIZE)),
+        );
+        pos += SEALED_SIZE;
+      }
+      buffered = joined.slice(pos);
+    },
+    async flush(
+      controller: TransformStreamDefaultController<Uint8Array>,
+    ): Promise<void> {
+      controller.enqueue(await openRecord(buffered.slice()));
+      if (index !== count) {
+        throw new Error("Ugyldig kryptert fil");
+      }
+    },
+  });
+}
+
+async function decryptBytes(
+  key: CryptoKey,
+  data: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const plain = new Response(data).body?.pipeThrough(
+    decryptStream(key, data.length),
+  );
+  return new Uint8Array(await new Response(plain).arrayBuffer());
+}
+
+export async function encryptMeta(
+  key: CryptoKey,
+  meta: EncryptedMeta,
+): Promise<string> {
+  const encrypted = encryptFile(new Blob([JSON.stringify(meta)]), key);
+  const blob = await encrypted.slice(0, encrypted.size);
+  return toBase64Url(new Uint8Array(await blob.arrayBuffer()));
+}
+
+export async function decryptMeta(
+  key: CryptoKey,
+  text: string,
+): Promise<EncryptedMeta> {
+  const plain = await decryptBytes(key, fromBase64Url(text));
+  return JSON.parse(new TextDecoder().decode(plain)) as EncryptedMeta;
+}
@@ -0,0 +1,39 @@
+const EXPIRY_PRESETS: number[] = [1, 24, 72, 168, 720];
+
+export function formatBytes(bytes: number): string {
+  if (bytes <= 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB"];
+  const i = Math.min(Math.max(Math.floor(Math.log(bytes) / Math.log(k)), 0), 3);
+  return `${(bytes / k ** i).toFixed(1)} ${sizes[i] ?? "GB"}`;
+}
+
+export function formatHours(hours: number): string {
+  if (hours % 24 !== 0) {
+    return `${hours} time${hours === 1 ? "" : "r"}`;
+  }
+  const days = hours / 24;
+  return `${days} dag${days === 1 ? "" : "er"}`;
+}
+
+export function formatRemaining(expiresAt: number): string {
+  const hours = Math.floor((expiresAt - Date.now()) / (60 * 60 * 1000));
+  if (hours < 1) {
+    return "under en time";
+  }
+  return formatHours(hours < 48 ? hours : Math.floor(hours / 24) * 24);
+}
+
+export function expiryOptions(
+  maxTtlHours: number,
+  defaultTtlHours: number,
+): { value: string; label: string }[] {
+  const hours = EXPIRY_PRESETS.filter((h) => h <= maxTtlHours);
+  for (const extra of [defaultTtlHours, maxTtlHours]) {
+    if (!hours.includes(extra)) {
+      hours.push(extra);
+    }
+  }
+  hours.sort((a, b) => a - b);
+  return hours.map((h) => ({ value: String(h), label: formatHours(h) }));
+}
@@ -137,3 +137,22 @@ export function IconTrash({ size = 24, stroke = 2 }: IconProps): ReactElement {
     </svg>
   );
 }
+
+export function IconClock({ size = 24, stroke = 2 }: IconProps): ReactElement {
+  return (
+    <svg
+      aria-hidden="true"
+      width={size}
+      height={size}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={stroke}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <circle cx="12" cy="12" r="10" />
+      <polyline points="12 6 12 12 16 14" />
+    </svg>
+  );
+}
@@ -6,6 +6,8 @@ import ReactDOM from "react-dom/client";
 import "@mantine/core/styles.css";
 import "@mantine/dropzone/styles.css";
 import App from "./App";
+import DecryptShare from "./Decrypt";
+import RequestUpload from "./RequestUpload";
 
 const theme: MantineThemeOverride = createTheme({
   primaryColor: "blue",
@@ -16,13 +18,25 @@ if (!rootElement) {
   throw new Error("Root element not found");
 }
 
+// The server only sends the app for a share page when the share is
+// encrypted end to end
+const isSharePage: boolean = window.location.pathname.startsWith("/d/");
+// A file request link, for someone without a password
+const isRequestPage: boolean = window.location.pathname.startsWith("/r/");
+
 const root: ReactDOM.Root = ReactDOM.createRoot(rootElement);
 
 function Main(): ReactElement {
   return (
     <React.StrictMode>
       <MantineProvider theme={theme} defaultColorScheme="auto">
-        <App />
+        {isSharePage ? (
+          <DecryptShare />
+        ) : isRequestPage ? (
+          <RequestUpload />
+        ) : (
+          <App />
+        )}
       </MantineProvider>
     </React.StrictMode>
   );
@@ -0,0 +1,141 @@
+// Saves a stream that only exists in the page, such as a decrypted file,
+// without holding all of it in memory where the browser allows that: a
+// file picker where there is one, otherwise a download relayed through a
+// service worker, and only as a last resort an in-memory Blob.
+
+interface SaveFilePicker {
+  showSaveFilePicker: (options: {
+    suggestedName: string;
+  }) => Promise<FileSystemFileHandle>;
+}
+
+interface RelayMessage {
+  type: "ready" | "pull" | "cancel";
+}
+
+const WORKER_SCOPE = "/e2e-sw/";
+// Long enough for the browser to take the relayed download off the frame
+const FRAME_LIFETIME_MS = 60_000;
+
+function hasFilePicker(w: Window): w is Window & SaveFilePicker {
+  return "showSaveFilePicker" in w;
+}
+
+async function relayWorker(): Promise<ServiceWorker | null> {
+  if (!("serviceWorker" in navigator)) {
+    return null;
+  }
+  try {
+    const registration = await navigator.serviceWorker.register("/e2e-sw.js", {
+      scope: WORKER_SCOPE,
+    });
+    const worker =
+      registration.active ?? registration.waiting ?? registration.installing;
+    if (!worker) {
+      return null;
+    }
+    if (worker.state !== "activated") {
+      await new Promise<void>((resolve) => {
+        worker.addEventListener("statechange", () => {
+          if (worker.state === "activated" || worker.state === "redundant") {
+            resolve();
+          }
+        });
+      });
+    }
+    return worker.state === "activated" ? worker : null;
+  } catch {
+    return null;
+  }
+}
+
+function relay(
+  worker: ServiceWorker,
+  name: string,
+  size: number,
+  stream: ReadableStream<Uint8Array>,
+): Promise<void> {
+  const id = crypto.randomUUID();
+  const { port1, port2 } = new MessageChannel();
+  const reader = stream.getReader();
+  const frame = document.createElement("iframe");
+  frame.hidden = true;
+
+  async function sendNext(): Promise<boolean> {
+    try {
+      const { done, value } = await reader.read();
+      if (done) {
+        port1.postMessage({ type: "done" });
+        return true;
+      }
+      port1.postMessage({ type: "chunk", chunk: value }, [
+        value.buffer as ArrayBuffer,
+      ]);
+      return false;
+    } catch (err) {
+      port1.postMessage({ type: "error", message: String(err) });
+      throw err;
+    }
+  }
+
+  const finished = new Promise<void>((resolve, reject) => {
+    port1.onmessage = ({ data }: MessageEvent<RelayMessage>): void => {
+      if (data.type === "ready") {
+        frame.src = `${WORKER_SCOPE}${id}/${encodeURIComponent(name)}`;
+        document.body.append(frame);
+      } else if (data.type === "pull") {
+        sendNext().then((done) => {
+          if (done) {
+            resolve();
+          }
+        }, reject);
+      } else {
+        reader.cancel().then(resolve, reject);
+      }
+    };
+  });
+  worker.postMessage({ id, name, size }, [port2]);
+
+  return finished.finally(() => {
+    port1.close();
+    setTimeout(() => {
+      frame.remove();
+    }, FRAME_LIFETIME_MS);
+  });
+}
+
+async function saveBlob(
+  name: string,
+  stream: ReadableStream<Uint8Array>,
+): Promise<void> {
+  const blob = await new Response(stream).blob();
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => {
+    URL.revokeObjectURL(url);
+  }, FRAME_LIFETIME_MS);
+}
+
+// The picker has to be opened straight from the click, so the stream is
+// only opened once it is known where it goes
+export async function saveStream(
+  name: string,
+  size: number,
+  open: () => Promise<ReadableStream<Uint8Array>>,
+): Promise<void> {
+  if (hasFilePicker(window)) {
+    const handle = await window.showSaveFilePicker({ suggestedName: name });
+    const writable = await handle.createWritable();
+    await (await open()).pipeTo(writable);
+    return;
+  }
+  const worker = await relayWorker();
+  if (worker) {
+    await relay(worker, name, size, await open());
+    return;
+  }
+  await saveBlob(name, await open());
+}
@@ -0,0 +1,384 @@
+import { encryptFile, encryptMeta, exportKey, generateKey } from "./e2e";
+
+const PENDING_KEY = "gravplass.pendingUpload";
+const MAX_RETRIES = 6;
+
+interface UploadStatus {
+  id: string;
+  chunkSize: number;
+  received: number[][];
+}
+
+interface PendingUpload {
+  id: string;
+  fingerprint: string;
+}
+
+export interface UploadedFile {
+  name: string;
+  size: number;
+  sha256: string;
+}
+
+export interface UploadResult {
+  // With the key in the #fragment when encrypted
+  url: string;
+  // Hashes are of what the server stored, so encrypted uploads leave them out
+  files: UploadedFile[];
+  encrypted: boolean;
+}
+
+export interface UploadOptions {
+  // null for no limit
+  maxDownloads: number | null;
+  expiryHours: number;
+  passphrase: string;
+  encrypt: boolean;
+}
+
+// One file as it is sent: as-is, or encrypted a range at a time
+interface UploadItem {
+  name: string;
+  size: number;
+  slice: (start: number, end: number) => Promise<Blob>;
+}
+
+// Files dropped as part of a folder carry their path within it, set by the
+// Dropzone as "/folder/file" or "./file"
+export function relativePath(file: File): string {
+  const { relativePath: path } = file as File & { relativePath?: string };
+  return path ? path.replace(/^\.?\//, "") : file.name;
+}
+
+// The passphrase is left out so it never ends up in localStorage
+function fingerprint(files: File[], options: UploadOptions): string {
+  const parts = files.map(
+    (f) => `${relativePath(f)}:${f.size}:${f.lastModified}`,
+  );
+  return JSON.stringify([parts, options.maxDownloads, options.expiryHours]);
+}
+
+function loadPending(): PendingUpload | null {
+  const raw = localStorage.getItem(PENDING_KEY);
+  return raw ? (JSON.parse(raw) as PendingUpload) : null;
+}
+
+export function hasPendingUpload(): boolean {
+  return loadPending() !== null;
+}
+
+function errorFor(status: number): Error {
+  if (status === 401) {
+    return new Error("Du er logget ut. Logg inn på nytt.");
+  }
+  if (status === 413) {
+    return new Error("Filene overskrider tilgjengelig plass");
+  }
+  if (status === 429) {
+    return new Error("For mange forsøk. Prøv igjen senere.");
+  }
+  return new Error(`Opplasting feilet (${String(status)})`);
+}
+
+async function request<T>(
+  url: string,
+  csrfToken: string,
+  init: RequestInit = {},
+): Promise<T | null> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "X-CSRF-Token": csrfToken, "Content-Type": "application/json" },
+  });
+  if (res.status === 404) {
+    return null;
+  }
+  if (!res.ok) {
+    throw errorFor(res.status);
+  }
+  return (await res.json()) as T;
+}
+
+// Resolves with the HTTP status, or 0 when the connection failed
+function putChunk(
+  url: string,
+  csrfToken: string,
+  chunk: Blob,
+  onProgress: (loaded: number) => void,
+): Promise<number> {
+  return new Promise((resolve) => {
+    const xhr = new XMLHttpRequest();
+
+    xhr.upload.addEventListener("progress", (e) => {
+      onProgress(e.loaded);
+    });
+
+    xhr.addEventListener("load", () => {
+      resolve(xhr.status);
+    });
+
+    xhr.addEventListener("error", () => {
+      resolve(0);
+    });
+
+    xhr.open("PUT", url);
+    xhr.setRequestHeader("X-CSRF-Token", csrfToken);
+    xhr.send(chunk);
+  });
+}
+
+function waitForRetry(attempt: number): Promise<void> {
+  return new Promise((resolve) => {
+    if (!navigator.onLine) {
+      window.addEventListener(
+        "online",
+        (): void => {
+          resolve();
+        },
+        { once: true },
+      );
+      return;
+    }
+    setTimeout(resolve, 1000 * 2 ** attempt);
+  });
+}
+
+// Network errors and rate limiting are retried with backoff; other server
+// rejections are not
+async function putChunkWithRetry(
+  url: string,
+  csrfToken: string,
+  chunk: Blob,
+  onProgress: (loaded: number) => void,
+): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    const status = await putChunk(url, csrfToken, chunk, onProgress);
+    if (status === 204) {
+      return;
+    }
+    if (status !== 0 && status !== 429) {
+      throw errorFor(status);
+    }
+    if (attempt >= MAX_RETRIES) {
+      throw status === 0 ? new Error("Nettverksfeil") : errorFor(status);
+    }
+    onProgress(0);
+    await waitForRetry(attempt);
+  }
+}
+
+function plainItem(file: File): UploadItem {
+  return {
+    name: relativePath(file),
+    size: file.size,
+    slice: (start: number, end: number): Promise<Blob> =>
+      Promise.resolve(file.slice(start, end)),
+  };
+}
+
+interface PreparedUpload {
+  items: UploadItem[];
+  // Null for a plain upload
+  encryptedMeta: string | null;
+}
+
+// Encrypted files are stored under their index and their real names go in
+// the encrypted file list
+async function prepareEncrypted(
+  files: File[],
+  key: CryptoKey,
+): Promise<PreparedUpload> {
+  return {
+    items: files.map((file, i) => ({
+      name: String(i),
+      ...encryptFile(file, key),
+    })),
+    encryptedMeta: await encryptMeta(key, {
+      files: files.map((f) => ({
+        name: relativePath(f),
+        size: f.size,
+        type: f.type || "application/octet-stream",
+      })),
+    }),
+  };
+}
+
+// A new key makes every byte different, so an encrypted upload is never
+// resumed and never remembered
+async function startOrResume(
+  files: File[],
+  csrfToken: string,
+  options: UploadOptions,
+  upload: PreparedUpload,
+): Promise<UploadStatus> {
+  const print = fingerprint(files, options);
+  const pending = upload.encryptedMeta ? null : loadPending();
+
+  if (pending?.fingerprint === print) {
+    const status = await request<UploadStatus>(
+      `/api/uploads/${pending.id}`,
+      csrfToken,
+    );
+    if (status) {
+      return status;
+    }
+  }
+
+  const status = await request<UploadStatus>("/api/uploads", csrfToken, {
+    method: "POST",
+    body: JSON.stringify({
+      files: upload.items.map((item) => ({ name: item.name, size: item.size })),
+      maxDownloads: options.maxDownloads,
+      expiryHours: options.expiryHours,
+      protected: options.passphrase !== "",
+      encryptedMeta: upload.encryptedMeta,
+    }),
+  });
+  if (!status) {
+    throw errorFor(404);
+  }
+  if (!upload.encryptedMeta) {
+    const saved: PendingUpload = { id: status.id, fingerprint: print };
+    localStorage.setItem(PENDING_KEY, JSON.stringify(saved));
+  }
+  return status;
+}
+
+// Sends every chunk the server doesn't have yet, one at a time
+async function sendChunks(
+  base: string,
+  csrfToken: string,
+  { status, items }: { status: UploadStatus; items: UploadItem[] },
+  onProgress: (loaded: number, total: number) => void,
+): Promise<void> {
+  const total = items.reduce((sum, item) => sum + item.size, 0);
+  let done = 0;
+
+  for (const [fileIndex, item] of items.entries()) {
+    const received = new Set(status.received[fileIndex]);
+    for (let start = 0; start < item.size; start += status.chunkSize) {
+      const chunkIndex = start / status.chunkSize;
+      const end = Math.min(start + status.chunkSize, item.size);
+      if (!received.has(chunkIndex)) {
+        await putChunkWithRetry(
+          `${base}/${fileIndex}/${chunkIndex}`,
+          csrfToken,
+          await item.slice(start, end),
+          (loaded) => {
+            onProgress(done + loaded, total);
+          },
+        );
+      }
+      done += end - start;
+      onProgress(done, total);
+    }
+  }
+}
+
+// Uploads in fixed-size chunks so a dropped connection or a page reload
+// only loses the chunk in flight. Progress for the session is tracked in
+// localStorage and picked up again when the same files are uploaded.
+export async function uploadFiles(
+  files: File[],
+  csrfToken: string,
+  options: UploadOptions,
+  onProgress: (loaded: number, total: number) => void,
+): Promise<UploadResult> {
+  const key = options.encrypt ? await generateKey() : null;
+  const upload: PreparedUpload = key
+    ? await prepareEncrypted(files, key)
+    : { items: files.map(plainItem), encryptedMeta: null };
+  const status = await startOrResume(files, csrfToken, options, upload);
+  await sendChunks(
+    `/api/uploads/${status.id}`,
+    csrfToken,
+    { status, items: upload.items },
+    onProgress,
+  );
+
+  const result = await request<{ url: string; files: UploadedFile[] }>(
+    `/api/uploads/${status.id}/finalize`,
+    csrfToken,
+    {
+      method: "POST",
+      body: JSON.stringify({ passphrase: options.passphrase }),
+    },
+  );
+  localStorage.removeItem(PENDING_KEY);
+  if (!result) {
+    throw new Error("Opplastingen er utløpt");
+  }
+  if (key) {
+    return {
+      url: `${result.url}#${await exportKey(key)}`,
+      files: [],
+      encrypted: true,
+    };
+  }
+  return { ...result, encrypted: false };
+}
+
+// Adds files to one of the user's shares, keeping its link. Not resumed
+// after a reload; adding the files again starts over.
+export async function addToShare(
+  shareId: string,
+  files: File[],
+  csrfToken: string,
+  onProgress: (loaded: number, total: number) => void,
+): Promise<void> {
+  const items = files.map(plainItem);
+  const status = await request<UploadStatus>("/api/uploads", csrfToken, {
+    method: "POST",
+    body: JSON.stringify({
+      files: items.map((item) => ({ name: item.name, size: item.size })),
+      shareId,
+    }),
+  });
+  if (!status) {
+    throw new Error("Delingen finnes ikke lenger");
+  }
+  await sendChunks(
+    `/api/uploads/${status.id}`,
+    csrfToken,
+    { status, items },
+    onProgress,
+  );
+  const result = await request(
+    `/api/uploads/${status.id}/finalize`,
+    csrfToken,
+    { method: "POST" },
+  );
+  if (!result) {
+    throw new Error("Delingen finnes ikke lenger");
+  }
+}
+
+// Uploads through someone's file request link. There is no login, so the
+// CSRF token is left empty, and nothing is remembered for resuming.
+export async function uploadToRequest(
+  requestId: string,
+  files: File[],
+  onProgress: (loaded: number, total: number) => void,
+): Promise<UploadedFile[]> {
+  const base = `/r/${requestId}/uploads`;
+  const items = files.map(plainItem);
+  const status = await request<UploadStatus>(base, "", {
+    method: "POST",
+    body: JSON.stringify({
+      files: items.map((item) => ({ name: item.name, size: item.size })),
+    }),
+  });
+  if (!status) {
+    throw new Error("Forespørselen er utløpt eller trukket tilbake");
+  }
+  await sendChunks(`${base}/${status.id}`, "", { status, items }, onProgress);
+
+  const result = await request<{ files: UploadedFile[] }>(
+    `${base}/${status.id}/finalize`,
+    "",
+    { method: "POST" },
+  );
+  if (!result) {
+    throw new Error("Opplastingen er utløpt");
+  }
+  return result.files;
+}
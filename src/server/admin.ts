@@ -0,0 +1,101 @@
+import { join } from "node:path";
+import { configuredAccounts } from "./buckets";
+import { cleanup } from "./cleanup";
+import { isSafeId } from "./filenames";
+import { deleteShare, listShares } from "./shares";
+import { partialDir, storage, uploadsDir } from "./storage";
+import { bucketUsage, clearUsage } from "./usage";
+
+interface BucketSummary {
+  bucket: string;
+  name: string | null;
+  shares: number;
+  size: number;
+  max: number | null;
+  downloads: number;
+}
+
+async function listDir(prefix: string): Promise<string[]> {
+  return (await storage().list(prefix)).map((e) => e.name);
+}
+
+// Every bucket on disk plus configured users that haven't uploaded yet
+async function listBuckets(): Promise<BucketSummary[]> {
+  const accounts = new Map(
+    (await configuredAccounts()).map((a) => [a.bucket, a]),
+  );
+  const buckets = new Set([
+    ...accounts.keys(),
+    ...(await listDir(uploadsDir())),
+    ...(await listDir(partialDir())),
+  ]);
+
+  const summaries: BucketSummary[] = [];
+  for (const bucket of buckets) {
+    const shares = await listShares(bucket);
+    const account = accounts.get(bucket);
+    summaries.push({
+      bucket,
+      name: account?.name ?? null,
+      shares: shares.length,
+      size: bucketUsage(bucket),
+      max: account?.maxBucketBytes ?? null,
+      downloads: shares.reduce((sum, s) => sum + s.downloads, 0),
+    });
+  }
+  summaries.sort((a, b) => b.size - a.size);
+  return summaries;
+}
+
+async function purgeBucket(bucket: string): Promise<void> {
+  // One share at a time, so each gives back its blobs
+  for (const shareId of await listDir(join(uploadsDir(), bucket))) {
+    await deleteShare(bucket, shareId);
+  }
+  await storage().delete(join(uploadsDir(), bucket));
+  await storage().delete(join(partialDir(), bucket));
+  clearUsage(bucket);
+  console.log(`Purged bucket on admin request: ${bucket}`);
+}
+
+// /api/admin/buckets, /api/admin/buckets/:bucket,
+// /api/admin/buckets/:bucket/:shareId, /api/admin/cleanup. The caller has
+// checked the admin password.
+export async function handleAdminApi(
+  req: Request,
+  pathname: string,
+): Promise<Response> {
+  const [resource, bucket, shareId] = pathname
+    .split("/")
+    .filter(Boolean)
+    .slice(2);
+
+  if (resource === "cleanup" && req.method === "POST") {
+    return Response.json(await cleanup());
+  }
+  if (resource !== "buckets") {
+    return new Response("Not Found", { status: 404 });
+  }
+  if (!bucket) {
+    return req.method === "GET"
+      ? Response.json(await listBuckets())
+      : new Response("Not Found", { status: 404 });
+  }
+  if (!isSafeId(bucket)) {
+    return new Response("Invalid bucket", { status: 400 });
+  }
+
+  if (!shareId && req.method === "GET") {
+    return Response.json(await listShares(bucket));
+  }
+  if (!shareId && req.method === "DELETE") {
+    await purgeBucket(bucket);
+    return new Response(null, { status: 204 });
+  }
+  if (shareId && req.method === "DELETE") {
+    return (await deleteShare(bucket, shareId))
+      ? new Response(null, { status: 204 })
+      : new Response("Not Found", { status: 404 });
+  }
+  return new Response("Not Found", { status: 404 });
+}
@@ -0,0 +1,88 @@
+import { join } from "node:path";
+import { storage, withKeyLock } from "./storage";
+
+// Uploaded files are kept once per content under blobs/<ab>/<sha256> and
+// shares only name them in their manifest, so the same installer uploaded
+// ten times takes the room of one. A blob goes once the last file naming it
+// is deleted. The reference counts live in memory and are rebuilt from the
+// manifests at startup.
+
+const BLOBS_DIR = "blobs";
+
+const refs: Map<string, number> = new Map();
+
+export function blobKey(sha256: string): string {
+  return join(BLOBS_DIR, sha256.slice(0, 2), sha256);
+}
+
+// Takes over a file just written at key as the blob for its content, or
+// drops it if that content is stored already. Either way the caller now
+// holds one reference.
+export function storeBlob(key: string, sha256: string): Promise<void> {
+  const target = blobKey(sha256);
+  return withKeyLock(target, async () => {
+    const count = refs.get(sha256) ?? 0;
+    // A blob nobody refers to is left over from a crash, but its content
+    // is still what the name says
+    if (count > 0 || (await storage().stat(target))) {
+      await storage().delete(key);
+    } else {
+      await storage().move(key, target);
+    }
+    refs.set(sha256, count + 1);
+  });
+}
+
+// One reference per file; a share may list the same content twice
+export async function releaseBlobs(files: { sha256: string }[]): Promise<void> {
+  for (const { sha256 } of files) {
+    const target = blobKey(sha256);
+    await withKeyLock(target, async () => {
+      const count = (refs.get(sha256) ?? 0) - 1;
+      if (count > 0) {
+        refs.set(sha256, count);
+        return;
+      }
+      refs.delete(sha256);
+      await storage().delete(target);
+    });
+  }
+}
+
+// For the startup rebuild
+export function holdBlobs(files: { sha256: string }[]): void {
+  for (const { sha256 } of files) {
+    refs.set(sha256, (refs.get(sha256) ?? 0) + 1);
+  }
+}
+
+export function clearBlobRefs(): void {
+  refs.clear();
+}
+
+// Blobs no manifest names, from uploads that died between storing their
+// files and writing the manifest. Only safe before uploads are accepted.
+export async function sweepBlobs(): Promise<number> {
+  let deleted = 0;
+  for (const fanout of await storage().list(BLOBS_DIR)) {
+    const prefix = join(BLOBS_DIR, fanout.name);
+    for (const { name } of await storage().list(prefix)) {
+      if (!refs.has(name)) {
+        await storage().delete(join(prefix, name));
+        deleted += 1;
+      }
+    }
+  }
+  return deleted;
+}
+
+// Bytes actually stored, each blob counted once
+export async function blobBytes(): Promise<number> {
+  let total = 0;
+  for (const fanout of await storage().list(BLOBS_DIR)) {
+    for (const entry of await storage().list(join(BLOBS_DIR, fanout.name))) {
+      total += entry.size;
+    }
+  }
+  return total;
+}
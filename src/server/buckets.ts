@@ -0,0 +1,244 @@
+import type { UserEntry } from "./config";
+import { config } from "./config";
+import { isSafeId } from "./filenames";
+import { bucketIdFor, legacyBucketId, verifySecret } from "./identity";
+import { sessionFor, sessionHolds } from "./sessions";
+import type { Scope } from "./tokens";
+import { ALL_SCOPES, verifyToken } from "./tokens";
+
+const HOUR_MS: number = 60 * 60 * 1000;
+const DAY_MS: number = 24 * HOUR_MS;
+
+export interface Account {
+  name: string;
+  bucket: string;
+  maxTtlMs: number;
+  maxBucketBytes: number;
+  maxFileBytes: number;
+  allowBurn: boolean;
+  allowPublic: boolean;
+  // Everything with the password, less with an API token
+  scopes: readonly Scope[];
+  tokenId: string | null;
+}
+
+const rejectedBuckets = new Set<string>();
+
+// A bucket from the config becomes a directory name, so it has to look like
+// the ids we hand out ourselves
+function hasValidBucket(user: UserEntry): boolean {
+  if (user.bucket === undefined || isSafeId(user.bucket)) {
+    return true;
+  }
+  if (!rejectedBuckets.has(user.bucket)) {
+    rejectedBuckets.add(user.bucket);
+    console.error(`Ignoring user ${user.name}: invalid bucket ${user.bucket}`);
+  }
+  return false;
+}
+
+// [[users]] first, then the legacy passwords array as unnamed users that
+// keep their password-derived buckets
+export function configuredUsers(): UserEntry[] {
+  const users = (config.users ?? []).filter(hasValidBucket);
+  for (const [i, entry] of (config.passwords ?? []).entries()) {
+    const { password, ...limits } =
+      typeof entry === "string" ? { password: entry } : entry;
+    users.push({
+      name: `Passord ${String(i + 1)}`,
+      secret: password,
+      bucket: legacyBucketId(password),
+      ...limits,
+    });
+  }
+  return users;
+}
+
+function maxFileBytes(user: UserEntry): number {
+  return (user.max_file_size_mb ?? config.max_file_size_mb) * 1024 * 1024;
+}
+
+async function toAccount(user: UserEntry): Promise<Account> {
+  const maxTtlDays =
+    user.max_ttl_days ?? config.max_ttl_days ?? config.share_ttl_days;
+  const maxBucketMb = user.max_bucket_size_mb ?? config.max_bucket_size_mb;
+  return {
+    name: user.name,
+    bucket: await bucketIdFor(user),
+    maxTtlMs: maxTtlDays * DAY_MS,
+    maxBucketBytes: maxBucketMb * 1024 * 1024,
+    maxFileBytes: maxFileBytes(user),
+    allowBurn: user.allow_burn ?? true,
+    allowPublic: user.allow_public ?? true,
+    scopes: ALL_SCOPES,
+    tokenId: null,
+  };
+}
+
+// The user whose secret this is, if any
+export async function userForPassword(
+  password: string,
+): Promise<UserEntry | null> {
+  for (const user of configuredUsers()) {
+    if (await verifySecret(user.secret, password)) {
+      return user;
+    }
+  }
+  return null;
+}
+
+// An API token in Authorization: Bearer acts as its user, limited to its
+// scopes; X-Password is the user's own secret, and without either the
+// web UI's session cookie is used
+export async function authenticate(req: Request): Promise<Account | null> {
+  const authorization = req.headers.get("Authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    const grant = verifyToken(authorization.slice(7).trim());
+    const user = grant && configuredUsers().find((u) => u.name === grant.user);
+    const account = user && (await toAccount(user));
+    // A user with the same name but another bucket is someone else
+    return grant && account && account.bucket === grant.bucket
+      ? { ...account, scopes: grant.scopes, tokenId: grant.id }
+      : null;
+  }
+
+  const password = req.headers.get("X-Password");
+  if (password) {
+    const user = await userForPassword(password);
+    return user ? await toAccount(user) : null;
+  }
+
+  const session = sessionFor(req);
+  const user =
+    session &&
+    configuredUsers().find(
+      (u) =>
+        u.name === session.user && sessionHolds(session.userSecret, u.secret),
+    );
+  return user ? await toAccount(user) : null;
+}
+
+// Null when the account may go ahead, or the response to send instead
+export function requireScope(account: Account, scope: Scope): Response | null {
+  return account.scopes.includes(scope)
+    ? null
+    : new Response(`Token lacks the ${scope} scope`, { status: 403 });
+}
+
+export async function configuredAccounts(): Promise<Account[]> {
+  return await Promise.all(configuredUsers().map(toAccount));
+}
+
+// Returns why the account may not create such a share, or null if it may
+export function checkSharePolicy(
+  account: Account,
+  share: {
+    maxDownloads: number | null;
+    protected: boolean;
+    encrypted: boolean;
+    fileCount: number;
+  },
+): string | null {
+  if (share.maxDownloads !== null && !account.allowBurn) {
+    return "Download limits are not allowed";
+  }
+  // The files of an encrypted share are fetched one at a time, each counted
+  // as a download, so the first would use up a limit meant for them all
+  if (share.maxDownloads !== null && share.encrypted && share.fileCount > 1) {
+    return "Encrypted shares with more than one file can't have a download limit";
+  }
+  if (!(share.protected || account.allowPublic)) {
+    return "A download passphrase is required";
+  }
+  return null;
+}
+
+// The largest request any user may send, for the server's body limit
+export function maxRequestBytes(): number {
+  return Math.max(
+    config.max_file_size_mb * 1024 * 1024,
+    ...configuredUsers().map(maxFileBytes),
+  );
+}
+
+export async function isAdminPassword(password: string): Promise<boolean> {
+  if (!config.admin_password) {
+    return false;
+  }
+  return await verifySecret(config.admin_password, password);
+}
+
+export async function isAdmin(req: Request): Promise<boolean> {
+  const password = req.headers.get("X-Password");
+  if (password) {
+    return await isAdminPassword(password);
+  }
+  if (req.headers.has("Authorization")) {
+    return false;
+  }
+  const session = sessionFor(req);
+  return (
+    session !== null && sessionHolds(session.adminSecret, config.admin_password)
+  );
+}
+
+export function shareTtlMs(): number {
+  return config.share_ttl_days * DAY_MS;
+}
+
+export function defaultTtlMs(account: Account): number {
+  return Math.min(shareTtlMs(), account.maxTtlMs);
+}
+
+// Expiry is chosen in whole hours; returns null when out of bounds
+export function parseExpiryHours(
+  value: unknown,
+  account: Account,
+): number | null {
+  if (value === undefined || value === null || value === "") {
+    return defaultTtlMs(account);
+  }
+  const hours = Number(value);
+  if (!Number.isInteger(hours) || hours < 1) {
+    return null;
+  }
+  const ttlMs = hours * HOUR_MS;
+  return ttlMs > account.maxTtlMs ? null : ttlMs;
+}
+
+const MAX_DOWNLOADS_LIMIT = 10_000;
+
+// Empty means no limit and the old burn flag means one download; returns
+// undefined when the value is invalid
+export function parseMaxDownloads(
+  value: unknown,
+  burn: unknown,
+): number | null | undefined {
+  if (value === undefined || value === null || value === "") {
+    return burn === true || burn === "true" ? 1 : null;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_DOWNLOADS_LIMIT) {
+    return;
+  }
+  return count;
+}
+
+// Limit on the encrypted file list of an end-to-end encrypted share
+const MAX_ENCRYPTED_META_LENGTH = 256 * 1024;
+
+// The encrypted file list as base64url, which the server keeps but can't
+// read. Null for a plain share, undefined if the value is unusable.
+export function parseEncryptedMeta(value: unknown): string | null | undefined {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  if (
+    typeof value !== "string" ||
+    value.length > MAX_ENCRYPTED_META_LENGTH ||
+    !/^[A-Za-z0-9_-]+$/.test(value)
+  ) {
+    return;
+  }
+  return value;
+}
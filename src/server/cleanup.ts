@@ -0,0 +1,85 @@
+import { join } from "node:path";
+import { readManifest, withShareLock } from "./manifest";
+import { storage, uploadsDir } from "./storage";
+import { cleanupAbandonedUploads } from "./uploads";
+import { releaseShare } from "./usage";
+
+const INCOMPLETE_SHARE_MS: number = 24 * 60 * 60 * 1000;
+
+export interface CleanupResult {
+  shares: number;
+  uploads: number;
+}
+
+// Checked again under the share lock, since a download or the owner may
+// have deleted it in the meantime
+function deleteExpired(sharePath: string): Promise<boolean> {
+  return withShareLock(sharePath, async () => {
+    const manifest = await readManifest(sharePath);
+    if (!manifest) {
+      return false;
+    }
+    await storage().delete(sharePath);
+    await releaseShare(manifest);
+    return true;
+  });
+}
+
+// Newest file anywhere under the prefix, so an upload still writing into a
+// subfolder isn't taken for a dead one
+async function lastModified(prefix: string): Promise<number> {
+  let newest = 0;
+  for (const entry of await storage().list(prefix)) {
+    newest = Math.max(
+      newest,
+      entry.folder
+        ? await lastModified(join(prefix, entry.name))
+        : entry.modified,
+    );
+  }
+  return newest;
+}
+
+async function cleanupExpiredShares(): Promise<number> {
+  const now = Date.now();
+  let deleted = 0;
+
+  try {
+    const buckets = await storage().list(uploadsDir());
+    for (const { name: bucket } of buckets) {
+      const bucketPath = join(uploadsDir(), bucket);
+      const shares = await storage().list(bucketPath);
+
+      for (const { name: shareId } of shares) {
+        const sharePath = join(bucketPath, shareId);
+        try {
+          const manifest = await readManifest(sharePath);
+          if (manifest && now > manifest.expiresAt) {
+            if (await deleteExpired(sharePath)) {
+              console.log(`Deleted expired share: ${bucket}/${shareId}`);
+              deleted += 1;
+            }
+          } else if (!manifest) {
+            // Upload died before its manifest was written
+            if (now - (await lastModified(sharePath)) > INCOMPLETE_SHARE_MS) {
+              await storage().delete(sharePath);
+              console.log(`Deleted incomplete share: ${bucket}/${shareId}`);
+              deleted += 1;
+            }
+          }
+        } catch {
+          // Skip if can't stat
+        }
+      }
+    }
+  } catch {
+    // uploads dir doesn't exist yet
+  }
+  return deleted;
+}
+
+export async function cleanup(): Promise<CleanupResult> {
+  const shares = await cleanupExpiredShares();
+  const uploads = await cleanupAbandonedUploads();
+  return { shares, uploads };
+}
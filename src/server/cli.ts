@@ -0,0 +1,524 @@
+#!/usr/bin/env bun
+import { mkdtemp, readdir, readFile, rm, stat } from "node:fs/promises";
+import { homedir, tmpdir } from "node:os";
+import { basename, join, relative, sep } from "node:path";
+import process from "node:process";
+import { parseArgs } from "node:util";
+import { parse } from "toml";
+import { formatBytes } from "./format";
+
+// Command-line client for scripts and CI. Uploads go through the same
+// chunked API as the web UI, so large artifacts show progress and a
+// dropped chunk is sent again instead of failing the whole upload.
+
+const USAGE = `Usage: gravplass <command> [options]
+
+Commands:
+  upload <path>...      Upload files and directories ("-" reads stdin)
+  get <url>             Download a share (a zip when it has several files)
+  list                  List your shares
+  delete <id>...        Delete shares
+  quota                 Show used and available space
+
+Options:
+  --server <url>        Server address
+  --expiry <time>       Expire after this many hours, or days with a d (7d)
+  --burn                Delete the share after one download
+  --downloads <n>       Delete the share after n downloads
+  --passphrase <text>   Require (upload) or give (get) a passphrase
+  --name <name>         File name for stdin (default "stdin")
+  -o, --output <path>   Where get saves the download
+  --json                Print JSON instead of text
+  -q, --quiet           No progress output
+
+The server and an API token are read from GRAVPLASS_SERVER and
+GRAVPLASS_TOKEN, or from ~/.config/gravplass/config.toml (another path in
+GRAVPLASS_CONFIG) with server = "..." and token = "...". GRAVPLASS_PASSWORD
+or password = "..." work in place of a token.`;
+
+const MAX_RETRIES = 6;
+
+interface ClientConfig {
+  server: string;
+  // The header that authenticates: a token, or failing that the password
+  credential: [name: string, value: string];
+}
+
+interface ConfigFile {
+  server?: string;
+  token?: string;
+  password?: string;
+}
+
+interface LocalFile {
+  // Path inside the share, "/"-separated
+  name: string;
+  path: string;
+  size: number;
+}
+
+interface ShareSettings {
+  expiryHours: number | undefined;
+  maxDownloads: number | null;
+  passphrase: string;
+}
+
+interface UploadStatus {
+  id: string;
+  chunkSize: number;
+}
+
+interface UploadResult {
+  url: string;
+  files: { name: string; size: number; sha256: string }[];
+}
+
+interface ShareSummary {
+  id: string;
+  url: string;
+  expiresAt: number;
+  size: number;
+  fileCount: number;
+  downloads: number;
+  maxDownloads: number | null;
+  protected: boolean;
+  encrypted: boolean;
+}
+
+interface Quota {
+  name: string;
+  used: number;
+  max: number;
+  available: number;
+  maxFileBytes: number;
+}
+
+// A failure to report as one line, without a stack trace
+class CliError extends Error {}
+
+interface CliOptions {
+  server?: string | undefined;
+  expiry?: string | undefined;
+  burn?: boolean | undefined;
+  downloads?: string | undefined;
+  passphrase?: string | undefined;
+  name?: string | undefined;
+  output?: string | undefined;
+  json?: boolean | undefined;
+  quiet?: boolean | undefined;
+  help?: boolean | undefined;
+}
+
+function parseCommandLine(): { values: CliOptions; positionals: string[] } {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        server: { type: "string" },
+        expiry: { type: "string" },
+        burn: { type: "boolean" },
+        downloads: { type: "string" },
+        passphrase: { type: "string" },
+        name: { type: "string" },
+        output: { type: "string", short: "o" },
+        json: { type: "boolean" },
+        quiet: { type: "boolean", short: "q" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    console.error(`gravplass: ${(err as Error).message}\nSee gravplass --help`);
+    process.exit(2);
+  }
+}
+
+const { values: options, positionals } = parseCommandLine();
+
+async function readConfigFile(): Promise<ConfigFile> {
+  const path =
+    process.env["GRAVPLASS_CONFIG"] ??
+    join(homedir(), ".config", "gravplass", "config.toml");
+  let text: string;
+  try {
+    text = await readFile(path, "utf-8");
+  } catch {
+    return {};
+  }
+  const parsed = parse(text) as Record<string, unknown>;
+  const file: ConfigFile = {};
+  for (const key of ["server", "token", "password"] as const) {
+    const value = parsed[key];
+    if (typeof value === "string") {
+      file[key] = value;
+    }
+  }
+  return file;
+}
+
+// The flag wins over the environment, which wins over the file
+async function loadConfig(): Promise<ClientConfig> {
+  const file = await readConfigFile();
+  const server =
+    options.server ?? process.env["GRAVPLASS_SERVER"] ?? file.server;
+  const token = process.env["GRAVPLASS_TOKEN"] ?? file.token;
+  const password = process.env["GRAVPLASS_PASSWORD"] ?? file.password;
+  if (!server) {
+    throw new CliError("No server set. Use --server or GRAVPLASS_SERVER.");
+  }
+  const base = server.replace(/\/+$/, "");
+  if (token) {
+    return { server: base, credential: ["Authorization", `Bearer ${token}`] };
+  }
+  if (password) {
+    return { server: base, credential: ["X-Password", password] };
+  }
+  throw new CliError("No token set. Use GRAVPLASS_TOKEN.");
+}
+
+async function api(
+  config: ClientConfig,
+  path: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set(...config.credential);
+  const res = await fetch(config.server + path, { ...init, headers });
+  if (!res.ok) {
+    const text = (await res.text()).trim();
+    throw new CliError(
+      res.status === 401
+        ? "Wrong token or password"
+        : `${String(res.status)} ${text || res.statusText}`,
+    );
+  }
+  return res;
+}
+
+function apiJson<T>(
+  config: ClientConfig,
+  path: string,
+  body: unknown,
+): Promise<T> {
+  return api(config, path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }).then((res) => res.json() as Promise<T>);
+}
+
+function parseExpiry(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return;
+  }
+  const match = /^(\d+)([hd]?)$/.exec(value);
+  if (!match) {
+    throw new CliError(`Invalid expiry: ${value}`);
+  }
+  return Number(match[1]) * (match[2] === "d" ? 24 : 1);
+}
+
+function parseDownloads(): number | null {
+  if (options.downloads !== undefined) {
+    const count = Number(options.downloads);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new CliError(`Invalid download count: ${options.downloads}`);
+    }
+    return count;
+  }
+  return options.burn ? 1 : null;
+}
+
+async function collectFiles(
+  paths: string[],
+  stdin: string,
+): Promise<LocalFile[]> {
+  const files: LocalFile[] = [];
+  for (const path of paths) {
+    if (path === "-") {
+      const { size } = await stat(stdin);
+      files.push({ name: options.name ?? "stdin", path: stdin, size });
+      continue;
+    }
+    const info = await stat(path).catch(() => null);
+    if (!info) {
+      throw new CliError(`No such file: ${path}`);
+    }
+    if (info.isFile()) {
+      files.push({ name: basename(path), path, size: info.size });
+      continue;
+    }
+    // Like a folder dropped in the browser: paths start with its name
+    const entries = await readdir(path, {
+      recursive: true,
+      withFileTypes: true,
+    });
+    for (const entry of entries) {
+      if (!entry.isFile()) {
+        continue;
+      }
+      const full = join(entry.parentPath, entry.name);
+      files.push({
+        name: [basename(path), ...relative(path, full).split(sep)].join("/"),
+        path: full,
+        size: (await stat(full)).size,
+      });
+    }
+  }
+  return files;
+}
+
+function progressReporter(total: number): (done: number) => void {
+  if (options.quiet || !process.stderr.isTTY) {
+    return (): void => {};
+  }
+  return (done: number): void => {
+    const percent = total > 0 ? Math.floor((done / total) * 100) : 100;
+    process.stderr.write(
+      `\r${formatBytes(done)} / ${formatBytes(total)} (${String(percent)}%)\u001b[K`,
+    );
+    if (done >= total) {
+      process.stderr.write("\n");
+    }
+  };
+}
+
+// Network errors and 5xx are worth another try; anything else won't change
+async function putChunk(
+  config: ClientConfig,
+  path: string,
+  chunk: Blob,
+): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await api(config, path, { method: "PUT", body: chunk });
+      return;
+    } catch (err) {
+      const retryable =
+        !(err instanceof CliError) || /^5\d\d /.test(err.message);
+      if (!retryable || attempt + 1 >= MAX_RETRIES) {
+        throw err;
+      }
+      await Bun.sleep(Math.min(1000 * 2 ** attempt, 30_000));
+    }
+  }
+}
+
+async function upload(
+  config: ClientConfig,
+  files: LocalFile[],
+  settings: ShareSettings,
+): Promise<UploadResult> {
+  if (files.length === 0) {
+    throw new CliError("Nothing to upload");
+  }
+  const { passphrase } = settings;
+  const status = await apiJson<UploadStatus>(config, "/api/uploads", {
+    files: files.map(({ name, size }) => ({ name, size })),
+    expiryHours: settings.expiryHours,
+    maxDownloads: settings.maxDownloads,
+    protected: passphrase !== "",
+  });
+
+  const total = files.reduce((sum, f) => sum + f.size, 0);
+  const report = progressReporter(total);
+  let done = 0;
+  report(done);
+  for (const [fileIndex, file] of files.entries()) {
+    const source = Bun.file(file.path);
+    for (let start = 0; start < file.size; start += status.chunkSize) {
+      const end = Math.min(start + status.chunkSize, file.size);
+      await putChunk(
+        config,
+        `/api/uploads/${status.id}/${String(fileIndex)}/${String(start / status.chunkSize)}`,
+        source.slice(start, end),
+      );
+      done += end - start;
+      report(done);
+    }
+  }
+
+  return apiJson<UploadResult>(config, `/api/uploads/${status.id}/finalize`, {
+    passphrase,
+  });
+}
+
+async function spoolStdin(path: string): Promise<void> {
+  const writer = Bun.file(path).writer();
+  for await (const chunk of Bun.stdin.stream()) {
+    writer.write(chunk);
+  }
+  await writer.end();
+}
+
+async function uploadCommand(
+  config: ClientConfig,
+  paths: string[],
+): Promise<void> {
+  if (paths.length === 0) {
+    throw new CliError("Give files or directories to upload, or - for stdin");
+  }
+  const settings: ShareSettings = {
+    expiryHours: parseExpiry(options.expiry),
+    maxDownloads: parseDownloads(),
+    passphrase: options.passphrase ?? "",
+  };
+  // Stdin has to be spooled, since the server wants sizes up front
+  const spool = paths.includes("-")
+    ? await mkdtemp(join(tmpdir(), "gravplass-"))
+    : null;
+  try {
+    const stdin = spool ? join(spool, "stdin") : "";
+    if (spool) {
+      await spoolStdin(stdin);
+    }
+    const files = await collectFiles(paths, stdin);
+    const result = await upload(config, files, settings);
+    const url = config.server + result.url;
+    console.log(options.json ? JSON.stringify({ ...result, url }) : url);
+  } finally {
+    if (spool) {
+      await rm(spool, { recursive: true, force: true });
+    }
+  }
+}
+
+async function listCommand(config: ClientConfig): Promise<void> {
+  const shares = (await (
+    await api(config, "/api/shares")
+  ).json()) as ShareSummary[];
+  if (options.json) {
+    console.log(
+      JSON.stringify(shares.map((s) => ({ ...s, url: config.server + s.url }))),
+    );
+    return;
+  }
+  for (const share of shares) {
+    const details = [
+      `${String(share.fileCount)} file${share.fileCount === 1 ? "" : "s"}`,
+      formatBytes(share.size),
+      `expires ${new Date(share.expiresAt).toISOString()}`,
+      share.maxDownloads === null
+        ? `${String(share.downloads)} downloads`
+        : `${String(share.downloads)}/${String(share.maxDownloads)} downloads`,
+    ];
+    if (share.protected) {
+      details.push("passphrase");
+    }
+    if (share.encrypted) {
+      details.push("encrypted");
+    }
+    console.log(
+      `${share.id}  ${config.server}${share.url}  ${details.join(", ")}`,
+    );
+  }
+}
+
+async function deleteCommand(
+  config: ClientConfig,
+  ids: string[],
+): Promise<void> {
+  if (ids.length === 0) {
+    throw new CliError("Give the ids of the shares to delete");
+  }
+  for (const id of ids) {
+    await api(config, `/api/shares/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+    if (!options.quiet) {
+      console.error(`Deleted ${id}`);
+    }
+  }
+}
+
+async function quotaCommand(config: ClientConfig): Promise<void> {
+  const quota = (await (await api(config, "/api/quota")).json()) as Quota;
+  console.log(
+    options.json
+      ? JSON.stringify(quota)
+      : `${quota.name}: ${formatBytes(quota.used)} of ${formatBytes(quota.max)} used, ${formatBytes(quota.available)} available, files up to ${formatBytes(quota.maxFileBytes)}`,
+  );
+}
+
+function downloadName(res: Response, url: URL): string {
+  const disposition = res.headers.get("Content-Disposition") ?? "";
+  const encoded = /filename\*=UTF-8''([^;]+)/i.exec(disposition)?.[1];
+  const plain = /filename="([^"]+)"/i.exec(disposition)?.[1];
+  const name = encoded ? decodeURIComponent(encoded) : plain;
+  // Never let the server pick a path outside the working directory
+  return basename(
+    name ?? url.pathname.split("/").filter(Boolean).at(-1) ?? "download",
+  );
+}
+
+// Shares are public links, so this needs no password, only the
+// passphrase of a protected share
+async function getCommand(target: string | undefined): Promise<void> {
+  if (!target) {
+    throw new CliError("Give the link of the share to download");
+  }
+  const url = new URL(target);
+  if (url.hash) {
+    throw new CliError(
+      "End-to-end encrypted shares can only be opened in a browser",
+    );
+  }
+  url.searchParams.set("dl", "");
+  const res = await fetch(url, {
+    headers: options.passphrase ? { "X-Passphrase": options.passphrase } : {},
+  });
+  if (!(res.ok && res.body)) {
+    throw new CliError(
+      `${String(res.status)} ${(await res.text()).trim() || res.statusText}`,
+    );
+  }
+  const path = options.output ?? downloadName(res, url);
+  const total = Number(res.headers.get("Content-Length") ?? 0);
+  const report = total > 0 ? progressReporter(total) : (): void => {};
+  const writer = Bun.file(path).writer();
+  let done = 0;
+  for await (const chunk of res.body) {
+    writer.write(chunk);
+    done += chunk.length;
+    report(done);
+  }
+  await writer.end();
+  console.log(options.json ? JSON.stringify({ path, size: done }) : path);
+}
+
+async function run(): Promise<void> {
+  const [command, ...args] = positionals;
+  if (options.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (command === "get") {
+    await getCommand(args[0]);
+    return;
+  }
+  const config = await loadConfig();
+  switch (command) {
+    case "upload":
+      await uploadCommand(config, args);
+      return;
+    case "list":
+      await listCommand(config);
+      return;
+    case "delete":
+      await deleteCommand(config, args);
+      return;
+    case "quota":
+      await quotaCommand(config);
+      return;
+    default:
+      throw new CliError(`Unknown command: ${command}\nSee gravplass --help`);
+  }
+}
+
+try {
+  await run();
+} catch (err) {
+  console.error(
+    `gravplass: ${err instanceof CliError ? err.message : String(err)}`,
+  );
+  process.exit(1);
+}
@@ -2,13 +2,72 @@ import { readFileSync, watch } from "node:fs";
 import process from "node:process";
 import { parse } from "toml";
 
+interface PasswordEntry {
+  password: string;
+  max_ttl_days?: number;
+}
+
+// A [[users]] table; limits left out fall back to the global ones. The
+// secret is plaintext or a Bun.password hash; the name keys the bucket.
+export interface UserEntry {
+  name: string;
+  secret: string;
+  bucket?: string;
+  max_bucket_size_mb?: number;
+  max_file_size_mb?: number;
+  max_ttl_days?: number;
+  allow_burn?: boolean;
+  allow_public?: boolean;
+}
+
+// Requests per minute from one client IP for each kind of route; 0 turns
+// a limit off
+export interface RateLimits {
+  upload?: number;
+  download?: number;
+  quota?: number;
+  shares?: number;
+  admin?: number;
+  auth?: number;
+}
+
+// Where shares and uploads in progress are kept. Server state (bucket ids,
+// the cookie secret) stays in data_dir either way. Credentials left out are
+// read from the S3_* environment variables.
+export interface StorageConfig {
+  driver?: "local" | "s3";
+  bucket?: string;
+  endpoint?: string;
+  region?: string;
+  access_key_id?: string;
+  secret_access_key?: string;
+  // Key prefix inside the bucket, for sharing it with other things
+  prefix?: string;
+}
+
 interface Config {
   port: number;
   data_dir: string;
-  passwords: string[];
+  users?: UserEntry[];
+  // Older form, still accepted: one unnamed user per password
+  passwords?: (string | PasswordEntry)[];
+  admin_password?: string;
   max_file_size_mb: number;
   share_ttl_days: number;
+  max_ttl_days?: number;
   max_bucket_size_mb: number;
+  // Larger files are offered for download only, not previewed
+  preview_max_size_mb?: number;
+  // Reverse proxies whose X-Forwarded-For is believed; addresses or CIDRs
+  trusted_proxies?: string[];
+  rate_limits?: RateLimits;
+  // Wrong passwords before a client is locked out, and the first lockout;
+  // each further one is twice as long
+  lockout_attempts?: number;
+  lockout_minutes?: number;
+  // How long a web UI login lasts
+  session_ttl_hours?: number;
+  storage?: StorageConfig;
 }
 
 const configPath: string = process.env["CONFIG_PATH"] ?? "./config.toml";
@@ -0,0 +1,451 @@
+import { basename, join } from "node:path";
+import { Readable } from "node:stream";
+import { TarArchive, ZipArchive } from "archiver";
+import { blobKey } from "./blobs";
+import { contentDisposition, isSafeId } from "./filenames";
+import { formatBytes } from "./format";
+import type { ManifestFile, ShareManifest } from "./manifest";
+import { readManifest } from "./manifest";
+import {
+  appShell,
+  encodePath,
+  escapeHtml,
+  renderPage,
+  wantsHtml,
+} from "./pages";
+import {
+  canInline,
+  hasThumbnail,
+  previewKind,
+  previewPage,
+  serveThumbnail,
+} from "./previews";
+import type { Validators } from "./ranges";
+import { isNotModified, parseRange, rangeApplies } from "./ranges";
+import { storage, uploadsDir } from "./storage";
+import type { ByteTally } from "./transfers";
+import { admitDownload, countedBody } from "./transfers";
+import type { ShareRef } from "./unlock";
+import { checkDownloadAccess, handleUnlock, sharePath } from "./unlock";
+import type { ZipEntry } from "./zip";
+import { storedZip, zipSize } from "./zip";
+
+function formatRemaining(ms: number): string {
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  if (hours < 1) {
+    return "under en time";
+  }
+  if (hours < 48) {
+    return `${String(hours)} time${hours === 1 ? "" : "r"}`;
+  }
+  return `${String(Math.floor(hours / 24))} dager`;
+}
+
+function landingPage(share: ShareRef, manifest: ShareManifest): Response {
+  const base = sharePath(share);
+  const { files } = manifest;
+  const totalSize = files.reduce((sum, f) => sum + f.size, 0);
+
+  // Each file fetched counts as a download, so limited shares get the zip
+  // and no previews
+  const limited = manifest.maxDownloads !== null;
+  const perFileLinks = !limited || files.length === 1;
+  const rows = files
+    .map((f) => {
+      const name = escapeHtml(f.name);
+      const href = `${base}/${encodePath(f.name)}`;
+      const label = perFileLinks ? `<a href="${href}">${name}</a>` : name;
+      const thumb =
+        !limited && hasThumbnail(f)
+          ? `<a href="${href}?preview"><img src="${href}?thumb" alt="" loading="lazy"></a>`
+          : "";
+      const preview =
+        !limited && previewKind(f)
+          ? ` · <a href="${href}?preview">Forhåndsvis</a>`
+          : "";
+      return `<li>${thumb}${label}<br><span class="meta">${formatBytes(f.size)} · ${escapeHtml(f.type)}${preview}</span><br><code class="hash" title="SHA-256">${f.sha256}</code></li>`;
+    })
+    .join("\n");
+
+  const status = [
+    `Utløper om ${formatRemaining(manifest.expiresAt - Date.now())}.`,
+  ];
+  const remaining =
+    manifest.maxDownloads === null
+      ? null
+      : manifest.maxDownloads - manifest.downloads;
+  if (remaining === 1) {
+    status.push("Slettes etter neste nedlasting.");
+  } else if (remaining !== null) {
+    status.push(`Slettes etter ${String(remaining)} nedlastinger til.`);
+  }
+
+  const zipLink =
+    files.length > 1
+      ? `<p><a class="button" href="${base}?dl=zip">Last ned alt som zip</a> <a href="${base}?dl=tar.gz">eller tar.gz</a></p>`
+      : "";
+
+  return renderPage(
+    "Delte filer",
+    `<h1>Delte filer</h1>
+<p>${String(files.length)} fil${files.length === 1 ? "" : "er"}, ${formatBytes(totalSize)}. ${status.join(" ")}</p>
+<ul class="files">
+${rows}
+</ul>
+${zipLink}
+<p class="meta">Direkte nedlasting for skript: <code>curl -OJ '&lt;lenke&gt;?dl'</code></p>`,
+  );
+}
+
+interface Payload {
+  status: number;
+  headers: Record<string, string>;
+  // Where a file's bytes are credited when not sent in one piece
+  tally: ByteTally | null;
+  // Opened only once the download has been admitted
+  open: () => AsyncIterable<Uint8Array>;
+}
+
+interface FileOptions {
+  createdAt: number;
+  inline: boolean;
+  ip: string;
+}
+
+// Conditional and range requests per RFC 9110
+function filePayload(
+  req: Request,
+  shareDir: string,
+  file: ManifestFile,
+  options: FileOptions,
+): Payload | Response {
+  const validators: Validators = {
+    etag: `"${file.sha256}"`,
+    lastModified: new Date(options.createdAt),
+  };
+  const disposition =
+    options.inline && canInline(file.type) ? "inline" : "attachment";
+  const digest = Buffer.from(file.sha256, "hex").toString("base64");
+  const headers: Record<string, string> = {
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "private, no-cache",
+    "Content-Disposition": contentDisposition(disposition, basename(file.name)),
+    "Content-Type": file.type,
+    // The whole file's hash, also on partial responses: RFC 9530 and the
+    // older RFC 3230 header some download tools still check
+    "Repr-Digest": `sha-256=:${digest}:`,
+    Digest: `SHA-256=${digest}`,
+    ETag: validators.etag,
+    "Last-Modified": validators.lastModified.toUTCString(),
+    "X-Content-Type-Options": "nosniff",
+  };
+
+  if (isNotModified(req, validators)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  const key = blobKey(file.sha256);
+  const tally: ByteTally = {
+    key: `${join(shareDir, file.name)}\n${options.ip}`,
+    size: file.size,
+  };
+  const range = rangeApplies(req, validators)
+    ? parseRange(req.headers.get("Range"), file.size)
+    : null;
+  if (range === "unsatisfiable") {
+    return new Response("Range Not Satisfiable", {
+      status: 416,
+      headers: { "Content-Range": `bytes */${String(file.size)}` },
+    });
+  }
+  if (range) {
+    const { start, end } = range;
+    return {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Length": String(end - start + 1),
+        "Content-Range": `bytes ${String(start)}-${String(end)}/${String(file.size)}`,
+      },
+      tally,
+      open: () => storage().stream(key, { start, end }),
+    };
+  }
+  return {
+    status: 200,
+    headers: { ...headers, "Content-Length": String(file.size) },
+    tally,
+    open: () => storage().stream(key),
+  };
+}
+
+// Already compressed, so deflating them again only costs time
+const COMPRESSED_TYPES: Set<string> = new Set([
+  "application/gzip",
+  "application/pdf",
+  "application/vnd.rar",
+  "application/x-7z-compressed",
+  "application/x-bzip2",
+  "application/x-xz",
+  "application/zip",
+  "application/zstd",
+]);
+
+function isCompressed(type: string): boolean {
+  const media = (type.split(";")[0] ?? "").trim().toLowerCase();
+  if (COMPRESSED_TYPES.has(media)) {
+    return true;
+  }
+  // Raw formats like WAV, BMP and SVG do shrink
+  const [major] = media.split("/");
+  return (
+    (major === "image" || major === "video" || major === "audio") &&
+    !["audio/wav", "image/bmp", "image/svg+xml", "image/tiff"].includes(media)
+  );
+}
+
+// Opened only when the archiver gets to the entry, so a big share doesn't
+// hold a stream per file open at once
+function entrySource(key: string): Readable {
+  return Readable.from(
+    (async function* (): AsyncGenerator<Uint8Array> {
+      yield* storage().stream(key);
+    })(),
+  );
+}
+
+const CHECKSUM_NAME = "SHA256SUMS";
+
+// In the format `sha256sum -c` reads, for zips of more than one file.
+// Left out if the share has a file by that name already.
+function checksumFile(files: ManifestFile[]): Uint8Array | null {
+  if (
+    files.length < 2 ||
+    files.some((f) => f.name.toLowerCase() === CHECKSUM_NAME.toLowerCase())
+  ) {
+    return null;
+  }
+  const lines = files.map((f) => `${f.sha256}  ${f.name}\n`);
+  return new TextEncoder().encode(lines.join(""));
+}
+
+// Entries keep the folder structure of the upload and are dated when the
+// share was created, so the same share always yields the same archive.
+// Shares of only compressed files are stored as-is, which gives the zip a
+// known length; anything else is deflated.
+function zipPayload(shareId: string, manifest: ShareManifest): Payload {
+  const { files } = manifest;
+  const date = new Date(manifest.createdAt);
+  const headers: Record<string, string> = {
+    "Content-Disposition": contentDisposition("attachment", `${shareId}.zip`),
+    "Content-Type": "application/zip",
+  };
+
+  const sums = checksumFile(files);
+
+  if (files.every((f) => isCompressed(f.type))) {
+    const entries: ZipEntry[] = files.map((f) => ({
+      name: f.name,
+      source: blobKey(f.sha256),
+      size: f.size,
+    }));
+    if (sums) {
+      entries.push({ name: CHECKSUM_NAME, source: sums, size: sums.length });
+    }
+    return {
+      status: 200,
+      headers: { ...headers, "Content-Length": String(zipSize(entries)) },
+      tally: null,
+      open: () => storedZip(entries, date),
+    };
+  }
+
+  return {
+    status: 200,
+    headers,
+    tally: null,
+    open: (): AsyncIterable<Uint8Array> => {
+      const archive = new ZipArchive({ zlib: { level: 5 } });
+      for (const { name, sha256 } of files) {
+        archive.append(entrySource(blobKey(sha256)), {
+          name,
+          date,
+          mode: 0o644,
+        });
+      }
+      if (sums) {
+        archive.append(Buffer.from(sums), {
+          name: CHECKSUM_NAME,
+          date,
+          mode: 0o644,
+        });
+      }
+      archive.finalize();
+      return archive;
+    },
+  };
+}
+
+function tarPayload(shareId: string, manifest: ShareManifest): Payload {
+  const date = new Date(manifest.createdAt);
+  return {
+    status: 200,
+    headers: {
+      "Content-Disposition": contentDisposition(
+        "attachment",
+        `${shareId}.tar.gz`,
+      ),
+      "Content-Type": "application/gzip",
+    },
+    tally: null,
+    open: (): AsyncIterable<Uint8Array> => {
+      const archive = new TarArchive({ gzip: true, gzipOptions: { level: 6 } });
+      for (const { name, sha256 } of manifest.files) {
+        archive.append(entrySource(blobKey(sha256)), {
+          name,
+          date,
+          mode: 0o644,
+        });
+      }
+      archive.finalize();
+      return archive;
+    },
+  };
+}
+
+// Every GET takes a download slot; it only counts, and only burns a limited
+// share, once the whole body has been sent
+async function serve(
+  req: Request,
+  shareDir: string,
+  payload: Payload | Response,
+): Promise<Response> {
+  if (payload instanceof Response) {
+    return payload;
+  }
+  const init = { status: payload.status, headers: payload.headers };
+  if (req.method === "HEAD") {
+    return new Response(null, init);
+  }
+  const admission = await admitDownload(shareDir);
+  if (admission === "exhausted") {
+    return new Response("Gone", { status: 410 });
+  }
+  if (admission === "busy") {
+    return new Response("Download limit reached by downloads in progress", {
+      status: 409,
+    });
+  }
+  return new Response(
+    countedBody(
+      shareDir,
+      payload.open(),
+      payload.tally,
+      payload.status === 206,
+    ),
+    init,
+  );
+}
+
+// /d/:bucket/:shareId            landing page for browsers, else direct
+// /d/:bucket/:shareId?dl[=zip|tar.gz]  direct download for scripts
+// /d/:bucket/:shareId/:filename  a single file from the share
+// ?inline                        shown in the browser, for safe types
+// ?preview, ?thumb               preview page and image thumbnail
+export async function handleDownload(
+  req: Request,
+  url: URL,
+  ip: string,
+): Promise<Response> {
+  const parts = url.pathname.split("/").filter(Boolean);
+  if (parts.length < 3) {
+    return new Response("Invalid path", { status: 400 });
+  }
+
+  const [, bucket, shareId, ...rest] = parts;
+  if (!(bucket && shareId && isSafeId(bucket) && isSafeId(shareId))) {
+    return new Response("Invalid path", { status: 400 });
+  }
+
+  const share: ShareRef = { bucket, shareId };
+  const shareDir = join(uploadsDir(), bucket, shareId);
+
+  try {
+    const manifest = await readManifest(shareDir);
+    const files = manifest?.files ?? [];
+    if (!manifest || files.length === 0) {
+      return new Response("Not Found", { status: 404 });
+    }
+    if (Date.now() > manifest.expiresAt) {
+      return new Response("Gone", { status: 410 });
+    }
+
+    if (req.method === "POST") {
+      return await handleUnlock(req, ip, share, manifest);
+    }
+    const denied = await checkDownloadAccess(req, ip, share, manifest);
+    if (denied) {
+      return denied;
+    }
+
+    // Only a browser holding the key can make sense of an encrypted share,
+    // so its page is the web app, which fetches the list from ?info and
+    // decrypts. There are no previews or archives of ciphertext.
+    if (manifest.encryptedMeta && rest.length === 0) {
+      return url.searchParams.has("info")
+        ? Response.json({
+            encryptedMeta: manifest.encryptedMeta,
+            files: files.map(({ name, size }) => ({ name, size })),
+            expiresAt: manifest.expiresAt,
+            maxDownloads: manifest.maxDownloads,
+            downloads: manifest.downloads,
+          })
+        : await appShell();
+    }
+
+    const dl = url.searchParams.get("dl");
+    const fileOptions: FileOptions = {
+      createdAt: manifest.createdAt,
+      inline: url.searchParams.has("inline"),
+      ip,
+    };
+
+    if (rest.length > 0) {
+      const name = rest.map(decodeURIComponent).join("/");
+      const file = files.find((f) => f.name === name);
+      if (!file) {
+        return new Response("Not Found", { status: 404 });
+      }
+      if (
+        manifest.maxDownloads === null &&
+        !manifest.encryptedMeta &&
+        (url.searchParams.has("thumb") || url.searchParams.has("preview"))
+      ) {
+        return url.searchParams.has("thumb")
+          ? await serveThumbnail(shareDir, file)
+          : await previewPage(sharePath(share), file);
+      }
+      return await serve(
+        req,
+        shareDir,
+        filePayload(req, shareDir, file, fileOptions),
+      );
+    }
+    if (dl === null && !fileOptions.inline && wantsHtml(req)) {
+      return landingPage(share, manifest);
+    }
+    if (dl === "tar.gz") {
+      return await serve(req, shareDir, tarPayload(shareId, manifest));
+    }
+    if (files.length === 1 && files[0] && dl !== "zip") {
+      return await serve(
+        req,
+        shareDir,
+        filePayload(req, shareDir, files[0], fileOptions),
+      );
+    }
+    return await serve(req, shareDir, zipPayload(shareId, manifest));
+  } catch {
+    return new Response("Not Found", { status: 404 });
+  }
+}
@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import {
+  contentDisposition,
+  isSafeId,
+  safeRelativePath,
+  safeRelativePaths,
+} from "./filenames";
+
+describe("safeRelativePath", () => {
+  test("keeps ordinary names and folders", () => {
+    expect(safeRelativePath("report.pdf")).toBe("report.pdf");
+    expect(safeRelativePath("photos/2024/img.jpg")).toBe("photos/2024/img.jpg");
+  });
+
+  test("drops parent and current folder segments", () => {
+    expect(safeRelativePath("../../etc/passwd")).toBe("etc/passwd");
+    expect(safeRelativePath("a/../b")).toBe("a/b");
+    expect(safeRelativePath("./a/./b")).toBe("a/b");
+    expect(safeRelativePath("..")).toBeNull();
+    expect(safeRelativePath("../..")).toBeNull();
+  });
+
+  test("makes absolute paths relative", () => {
+    expect(safeRelativePath("/etc/passwd")).toBe("etc/passwd");
+    expect(safeRelativePath("//server/share/x")).toBe("server/share/x");
+    expect(safeRelativePath("C:\\Windows\\win.ini")).toBe("C:/Windows/win.ini");
+    expect(safeRelativePath("\\\\server\\share")).toBe("server/share");
+  });
+
+  test("strips NUL and control characters", () => {
+    expect(safeRelativePath("evil\u0000.txt")).toBe("evil.txt");
+    expect(safeRelativePath("a\nb\rc\td\u007f.txt")).toBe("abcd.txt");
+    expect(safeRelativePath("\u0000/\u0001")).toBeNull();
+  });
+
+  test("drops trailing dots and spaces Windows would strip", () => {
+    expect(safeRelativePath("name. . ")).toBe("name");
+    expect(safeRelativePath("...")).toBeNull();
+  });
+
+  test("prefixes Windows device names", () => {
+    expect(safeRelativePath("CON")).toBe("_CON");
+    expect(safeRelativePath("folder/nul.txt")).toBe("folder/_nul.txt");
+    expect(safeRelativePath("com1.log")).toBe("_com1.log");
+  });
+
+  test("prefixes names the server keeps in a share", () => {
+    expect(safeRelativePath(".manifest.json")).toBe("_.manifest.json");
+    expect(safeRelativePath(".thumbs/x.jpg")).toBe("_.thumbs/x.jpg");
+    expect(safeRelativePath(".burn")).toBe("_.burn");
+    expect(safeRelativePath("sub/.manifest.json")).toBe("sub/.manifest.json");
+  });
+
+  test("rejects very long and very deep paths", () => {
+    expect(safeRelativePath("a".repeat(255))).toBe("a".repeat(255));
+    expect(safeRelativePath("a".repeat(256))).toBeNull();
+    expect(safeRelativePath(Array(200).fill("abcdefgh").join("/"))).toBeNull();
+    expect(safeRelativePath(Array(33).fill("a").join("/"))).toBeNull();
+  });
+
+  test("normalizes Unicode to NFC", () => {
+    expect(safeRelativePath("A\u030a.txt")).toBe("\u00c5.txt");
+  });
+
+  test("rejects names with nothing left", () => {
+    expect(safeRelativePath("")).toBeNull();
+    expect(safeRelativePath("   ")).toBeNull();
+    expect(safeRelativePath("/")).toBeNull();
+  });
+});
+
+describe("safeRelativePaths", () => {
+  test("keeps a list of distinct paths", () => {
+    expect(safeRelativePaths(["a.txt", "dir/b.txt"])).toEqual([
+      "a.txt",
+      "dir/b.txt",
+    ]);
+  });
+
+  test("rejects duplicate paths", () => {
+    expect(safeRelativePaths(["a.txt", "a.txt"])).toBeNull();
+    expect(safeRelativePaths(["a.txt", "./a.txt"])).toBeNull();
+    expect(safeRelativePaths(["x/a.txt", "../x/a.txt"])).toBeNull();
+  });
+
+  test("rejects paths that differ only in case", () => {
+    expect(safeRelativePaths(["Readme.md", "README.md"])).toBeNull();
+  });
+
+  test("rejects names that collide once normalized", () => {
+    expect(safeRelativePaths(["\u00c5.txt", "A\u030a.txt"])).toBeNull();
+    expect(safeRelativePaths(["a.txt", "a.txt\u0000"])).toBeNull();
+    expect(safeRelativePaths(["a", "a. "])).toBeNull();
+  });
+
+  test("rejects a file that is also another file's folder", () => {
+    expect(safeRelativePaths(["docs", "docs/a.txt"])).toBeNull();
+    expect(safeRelativePaths(["Docs/a.txt", "docs"])).toBeNull();
+  });
+
+  test("rejects the list if any name is unusable", () => {
+    expect(safeRelativePaths(["ok.txt", ".."])).toBeNull();
+  });
+});
+
+describe("isSafeId", () => {
+  test("accepts nanoids and legacy hex", () => {
+    expect(isSafeId("V1StGXR8_Z5jdHi6")).toBe(true);
+    expect(isSafeId("a1b2c3d4e5f6")).toBe(true);
+  });
+
+  test("rejects anything that could reach outside a folder", () => {
+    expect(isSafeId("")).toBe(false);
+    expect(isSafeId("..")).toBe(false);
+    expect(isSafeId("a/b")).toBe(false);
+    expect(isSafeId("a\\b")).toBe(false);
+    expect(isSafeId("a\u0000")).toBe(false);
+    expect(isSafeId("a.b")).toBe(false);
+    expect(isSafeId("a b")).toBe(false);
+    expect(isSafeId("\u00e6\u00f8\u00e5")).toBe(false);
+    expect(isSafeId("a".repeat(65))).toBe(false);
+  });
+});
+
+describe("contentDisposition", () => {
+  test("sends plain names as they are", () => {
+    expect(contentDisposition("attachment", "report.pdf")).toBe(
+      `attachment; filename="report.pdf"; filename*=UTF-8''report.pdf`,
+    );
+  });
+
+  test("gives old clients an ASCII fallback and the rest UTF-8", () => {
+    expect(contentDisposition("inline", "blåbær.txt")).toBe(
+      `inline; filename="bl_b_r.txt"; filename*=UTF-8''bl%C3%A5b%C3%A6r.txt`,
+    );
+  });
+
+  test("can't be broken out of with quotes or line breaks", () => {
+    const header = contentDisposition(
+      "attachment",
+      'a"; filename="evil.exe\r\nSet-Cookie: x=1',
+    );
+    expect(header).not.toContain("\r");
+    expect(header).not.toContain("\n");
+    expect(header.match(/"/g)).toHaveLength(2);
+    expect(header).toStartWith(`attachment; filename="a_; filename=_evil.exe`);
+  });
+
+  test("escapes what RFC 5987 doesn't allow", () => {
+    expect(contentDisposition("attachment", "it's (1)*.txt")).toEndWith(
+      "filename*=UTF-8''it%27s%20%281%29%2A.txt",
+    );
+  });
+
+  test("keeps percent escapes out of the fallback", () => {
+    expect(contentDisposition("attachment", "%41.txt")).toStartWith(
+      `attachment; filename="_41.txt"`,
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { LEGACY_BURN_MARKER, MANIFEST_NAME } from "./manifest";
+import { THUMBS_DIR } from "./previews";
+
+const MAX_PATH_LENGTH = 1024;
+const MAX_SEGMENT_LENGTH = 255;
+const MAX_DEPTH = 32;
+
+// Bucket, share and upload ids are nanoids (or legacy hex), so anything
+// else in a URL is rejected before it gets near a path
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Names the server keeps in a share directory next to the uploaded files
+const RESERVED: string[] = [MANIFEST_NAME, THUMBS_DIR, LEGACY_BURN_MARKER];
+
+// Device names Windows won't create, with or without an extension
+const WINDOWS_DEVICE = /^(?:con|prn|aux|nul|com\d|lpt\d)(?:\..*)?$/i;
+
+export function isSafeId(value: string): boolean {
+  return ID_PATTERN.test(value);
+}
+
+function sanitizeSegment(segment: string): string {
+  const clean = segment
+    // biome-ignore lint/suspicious/noControlCharactersInRegex: stripping them is the point
+    .replace(/[\u0000-\u001f\u007f]/g, "")
+    .trim()
+    .replace(/[. ]+$/, "");
+  return WINDOWS_DEVICE.test(clean) ? `_${clean}` : clean;
+}
+
+// A relative path from a folder upload with "/" separators: control
+// characters, "." and ".." segments are dropped and names that would
+// collide with our own files get a "_" prefix. Null if nothing is left or
+// the path is too long or deep.
+export function safeRelativePath(value: string): string | null {
+  const segments = value
+    .normalize("NFC")
+    .replaceAll("\\", "/")
+    .split("/")
+    .map(sanitizeSegment)
+    .filter((s) => s !== "" && s !== "..");
+  if (segments.length === 0 || segments.length > MAX_DEPTH) {
+    return null;
+  }
+  if (segments.some((s) => s.length > MAX_SEGMENT_LENGTH)) {
+    return null;
+  }
+  const [first = ""] = segments;
+  if (RESERVED.some((r) => first === r || first.startsWith(`${r}.`))) {
+    segments[0] = `_${first}`;
+  }
+  const path = segments.join("/");
+  return path.length > MAX_PATH_LENGTH ? null : path;
+}
+
+// Rejects the whole list if any name is unusable or two files would land on
+// the same path, or one file's path is another's folder. Compared without
+// case so a share still unpacks on macOS and Windows.
+export function safeRelativePaths(values: string[]): string[] | null {
+  const paths: string[] = [];
+  const seen = new Set<string>();
+  for (const value of values) {
+    const path = safeRelativePath(value);
+    if (!path || seen.has(path.toLowerCase())) {
+      return null;
+    }
+    seen.add(path.toLowerCase());
+    paths.push(path);
+  }
+  for (const path of paths) {
+    const parts = path.toLowerCase().split("/");
+    for (let i = 1; i < parts.length; i++) {
+      if (seen.has(parts.slice(0, i).join("/"))) {
+        return null;
+      }
+    }
+  }
+  return paths;
+}
+
+// RFC 5987 value: encodeURIComponent leaves a few characters that aren't
+// allowed there
+function encodeExtValue(value: string): string {
+  return encodeURIComponent(value).replace(
+    /['()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+// RFC 6266: a plain ASCII filename for old clients and filename* with the
+// real UTF-8 name, which everything current prefers
+export function contentDisposition(
+  type: "attachment" | "inline",
+  name: string,
+): string {
+  const fallback = name
+    .replace(/[^\x20-\x7e]/g, "_")
+    .replace(/["\\]/g, "_")
+    .replace(/%(?=[0-9A-Fa-f]{2})/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeExtValue(name)}`;
+}
@@ -0,0 +1,410 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { nanoid } from "nanoid";
+import type { Account } from "./buckets";
+import { configuredAccounts, defaultTtlMs } from "./buckets";
+import { config } from "./config";
+import { isSafeId } from "./filenames";
+import { appShell } from "./pages";
+import { withKeyLock } from "./storage";
+import type { UploadFile, UploadSession } from "./uploads";
+import {
+  handleFinalizeUpload,
+  handleUploadChunk,
+  handleUploadStatus,
+  openSessions,
+  parseUploadFiles,
+  readSession,
+  startUpload,
+} from "./uploads";
+import { bucketUsage } from "./usage";
+
+// File requests: a link a user hands to someone without a password, who
+// can upload through it into the user's bucket. What arrives shows up in
+// the user's share list; the sender is never given a link to it.
+
+const STORE_NAME = "requests.json";
+const ID_LENGTH = 12;
+const MAX_MESSAGE_LENGTH = 1000;
+const MAX_REQUESTS_PER_USER = 50;
+const MAX_EXPIRY_DAYS = 365;
+const MAX_OPEN_UPLOADS = 5;
+const DAY_MS: number = 24 * 60 * 60 * 1000;
+
+interface StoredRequest {
+  // The [[users]] name whose bucket receives the files, and that bucket.
+  // Users from the passwords list are named by their place in it, so the
+  // name alone could come to mean someone else.
+  user: string;
+  bucket: string;
+  message: string;
+  // Caps on everything sent through the request together; null for none
+  maxBytes: number | null;
+  maxFiles: number | null;
+  receivedBytes: number;
+  receivedFiles: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface RequestSummary {
+  id: string;
+  url: string;
+  message: string;
+  maxBytes: number | null;
+  maxFiles: number | null;
+  receivedBytes: number;
+  receivedFiles: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+let store: { path: string; requests: Map<string, StoredRequest> } | null = null;
+
+function storePath(): string {
+  return join(config.data_dir, STORE_NAME);
+}
+
+// Reloaded when data_dir changes in the config
+function loadStore(): Map<string, StoredRequest> {
+  const path = storePath();
+  if (store?.path === path) {
+    return store.requests;
+  }
+  let requests: Map<string, StoredRequest>;
+  try {
+    const content = readFileSync(path, "utf-8");
+    requests = new Map(
+      Object.entries(JSON.parse(content) as Record<string, StoredRequest>),
+    );
+  } catch {
+    requests = new Map();
+  }
+  store = { path, requests };
+  return requests;
+}
+
+// Expired requests are dropped whenever the file is written
+function saveStore(requests: Map<string, StoredRequest>): void {
+  const now = Date.now();
+  for (const [id, request] of requests) {
+    if (now > request.expiresAt) {
+      requests.delete(id);
+    }
+  }
+  mkdirSync(config.data_dir, { recursive: true });
+  const tmpPath = `${storePath()}.${nanoid(6)}`;
+  writeFileSync(
+    tmpPath,
+    JSON.stringify(Object.fromEntries(requests), null, 2),
+    { mode: 0o600 },
+  );
+  renameSync(tmpPath, storePath());
+}
+
+function summarize(id: string, request: StoredRequest): RequestSummary {
+  return {
+    id,
+    url: `/r/${id}`,
+    message: request.message,
+    maxBytes: request.maxBytes,
+    maxFiles: request.maxFiles,
+    receivedBytes: request.receivedBytes,
+    receivedFiles: request.receivedFiles,
+    createdAt: request.createdAt,
+    expiresAt: request.expiresAt,
+  };
+}
+
+// The request and the account it uploads into, unless it is unknown,
+// expired or its user is gone from the config
+async function openRequest(
+  id: string,
+): Promise<{ request: StoredRequest; account: Account } | null> {
+  if (!isSafeId(id)) {
+    return null;
+  }
+  const request = loadStore().get(id);
+  if (!request || Date.now() > request.expiresAt) {
+    return null;
+  }
+  const account = (await configuredAccounts()).find((a) => ownedBy(request, a));
+  return account ? { request, account } : null;
+}
+
+// Why these files don't fit in what is left of the request, or null
+function exceedsCaps(
+  request: StoredRequest,
+  files: UploadFile[],
+): string | null {
+  const bytes = files.reduce((sum, f) => sum + f.size, 0);
+  if (
+    request.maxFiles !== null &&
+    request.receivedFiles + files.length > request.maxFiles
+  ) {
+    return "Too many files for this request";
+  }
+  if (
+    request.maxBytes !== null &&
+    request.receivedBytes + bytes > request.maxBytes
+  ) {
+    return "Too large for this request";
+  }
+  return null;
+}
+
+function countReceived(
+  request: StoredRequest,
+  files: UploadFile[],
+  sign: 1 | -1,
+): void {
+  request.receivedFiles += sign * files.length;
+  request.receivedBytes += sign * files.reduce((sum, f) => sum + f.size, 0);
+}
+
+function ownedBy(request: StoredRequest, account: Account): boolean {
+  return request.user === account.name && request.bucket === account.bucket;
+}
+
+export function listRequests(account: Account): RequestSummary[] {
+  const now = Date.now();
+  return [...loadStore()]
+    .filter(
+      ([, request]) => ownedBy(request, account) && now <= request.expiresAt,
+    )
+    .map(([id, request]) => summarize(id, request))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Files already received stay in the bucket as ordinary shares
+export function deleteRequest(account: Account, id: string): boolean {
+  const requests = loadStore();
+  const request = requests.get(id);
+  if (!(request && ownedBy(request, account))) {
+    return false;
+  }
+  requests.delete(id);
+  saveStore(requests);
+  console.log(`Deleted file request ${id} of user ${account.name}`);
+  return true;
+}
+
+// Empty means no cap; returns undefined when invalid
+function parseCap(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  const cap = Number(value);
+  if (!Number.isSafeInteger(cap) || cap < 1) {
+    return;
+  }
+  return cap;
+}
+
+export async function handleCreateRequest(
+  req: Request,
+  account: Account,
+): Promise<Response> {
+  let body: {
+    message?: unknown;
+    maxSizeMb?: unknown;
+    maxFiles?: unknown;
+    expiryDays?: unknown;
+  };
+  try {
+    body = (await req.json()) as typeof body;
+  } catch {
+    return new Response("Invalid JSON", { status: 400 });
+  }
+  const message = typeof body.message === "string" ? body.message.trim() : "";
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    return new Response("Message too long", { status: 400 });
+  }
+  const maxSizeMb = parseCap(body.maxSizeMb);
+  const maxFiles = parseCap(body.maxFiles);
+  if (maxSizeMb === undefined || maxFiles === undefined) {
+    return new Response("Invalid limits", { status: 400 });
+  }
+  const expiryDays = Number(body.expiryDays);
+  if (
+    !Number.isInteger(expiryDays) ||
+    expiryDays < 1 ||
+    expiryDays > MAX_EXPIRY_DAYS
+  ) {
+    return new Response("Invalid expiry", { status: 400 });
+  }
+
+  const requests = loadStore();
+  if (listRequests(account).length >= MAX_REQUESTS_PER_USER) {
+    return new Response("Too many file requests", { status: 409 });
+  }
+  const id = nanoid(ID_LENGTH);
+  const now = Date.now();
+  const request: StoredRequest = {
+    user: account.name,
+    bucket: account.bucket,
+    message,
+    maxBytes: maxSizeMb === null ? null : maxSizeMb * 1024 * 1024,
+    maxFiles,
+    receivedBytes: 0,
+    receivedFiles: 0,
+    createdAt: now,
+    expiresAt: now + expiryDays * DAY_MS,
+  };
+  requests.set(id, request);
+  saveStore(requests);
+  console.log(`Created file request ${id} for user ${account.name}`);
+  return Response.json(summarize(id, request), { status: 201 });
+}
+
+// What the upload page shows. The room left is the smaller of the
+// request's cap and the bucket's free space.
+function requestInfo(request: StoredRequest, account: Account): Response {
+  const available = Math.max(
+    0,
+    account.maxBucketBytes - bucketUsage(account.bucket),
+  );
+  return Response.json({
+    from: request.user,
+    message: request.message,
+    expiresAt: request.expiresAt,
+    maxFileBytes: account.maxFileBytes,
+    availableBytes:
+      request.maxBytes === null
+        ? available
+        : Math.min(available, request.maxBytes - request.receivedBytes),
+    remainingFiles:
+      request.maxFiles === null
+        ? null
+        : request.maxFiles - request.receivedFiles,
+  });
+}
+
+async function handleCreateRequestUpload(
+  req: Request,
+  requestId: string,
+  { request, account }: { request: StoredRequest; account: Account },
+): Promise<Response> {
+  let body: { files?: unknown };
+  try {
+    body = (await req.json()) as { files?: unknown };
+  } catch {
+    return new Response("Invalid JSON", { status: 400 });
+  }
+  const files = parseUploadFiles(body.files);
+  if (!files) {
+    return new Response("Invalid file list", { status: 400 });
+  }
+
+  // Uploads still in progress count against the caps as if they were done,
+  // so many at once can't fill the bucket with chunks past them. One at a
+  // time per request, so two can't both count before either is open.
+  return await withKeyLock(`request:${requestId}`, async () => {
+    const pending = (await openSessions(account.bucket)).filter(
+      (s) => s.requestId === requestId,
+    );
+    if (pending.length >= MAX_OPEN_UPLOADS) {
+      return new Response("Too many uploads in progress for this request", {
+        status: 429,
+      });
+    }
+    const over = exceedsCaps(request, [
+      ...pending.flatMap((s) => s.files),
+      ...files,
+    ]);
+    if (over) {
+      return new Response(over, { status: 413 });
+    }
+    // The sender only picks files; how long they are kept is the owner's
+    // default
+    return await startUpload(account, files, {
+      maxDownloads: null,
+      ttlMs: defaultTtlMs(account),
+      encryptedMeta: null,
+      requestId,
+    });
+  });
+}
+
+// Counted before the share is made, so two uploads finishing together
+// can't both slip under a cap, and given back if it fails. The sender
+// gets the hashes but not the link.
+async function handleFinalizeRequestUpload(
+  req: Request,
+  requestId: string,
+  { request, account }: { request: StoredRequest; account: Account },
+  { id: uploadId, files }: UploadSession,
+): Promise<Response> {
+  const over = exceedsCaps(request, files);
+  if (over) {
+    return new Response(over, { status: 413 });
+  }
+  countReceived(request, files, 1);
+  const response = await handleFinalizeUpload(req, account, uploadId);
+  if (!response.ok) {
+    countReceived(request, files, -1);
+    return response;
+  }
+  saveStore(loadStore());
+  console.log(
+    `Received ${String(files.length)} files through file request ${requestId}`,
+  );
+  const result = (await response.json()) as { files: unknown };
+  return Response.json({ files: result.files });
+}
+
+// /r/:requestId is the upload page (or its details with ?info), and
+// /r/:requestId/uploads/... the chunked upload API of the web UI, acting
+// as the request's owner
+export async function handleFileRequest(
+  req: Request,
+  url: URL,
+): Promise<Response> {
+  const [requestId = "", section, uploadId, first, second] = url.pathname
+    .split("/")
+    .filter(Boolean)
+    .slice(1);
+  const open = await openRequest(requestId);
+
+  if (!section && req.method === "GET") {
+    if (!url.searchParams.has("info")) {
+      return await appShell();
+    }
+    return open
+      ? requestInfo(open.request, open.account)
+      : new Response("Not Found", { status: 404 });
+  }
+  if (!open || section !== "uploads") {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  if (!uploadId && req.method === "POST") {
+    return handleCreateRequestUpload(req, requestId, open);
+  }
+  // Only uploads started through this request are reachable from it
+  const upload = uploadId
+    ? await readSession(open.account.bucket, uploadId)
+    : null;
+  if (!(uploadId && upload && upload.requestId === requestId)) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  if (!first && req.method === "GET") {
+    return handleUploadStatus(open.account.bucket, uploadId);
+  }
+  if (first === "finalize" && !second && req.method === "POST") {
+    return handleFinalizeRequestUpload(req, requestId, open, upload);
+  }
+  if (
+    req.method === "PUT" &&
+    /^\d+$/.test(first ?? "") &&
+    /^\d+$/.test(second ?? "")
+  ) {
+    return handleUploadChunk(req, open.account, {
+      uploadId,
+      fileIndex: Number(first),
+      chunkIndex: Number(second),
+    });
+  }
+  return new Response("Not Found", { status: 404 });
+}
@@ -0,0 +1,10 @@
+// Shared by the server's pages, the status script and the CLI, so it must
+// not pull in the config
+
+export function formatBytes(bytes: number): string {
+  if (bytes <= 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB"];
+  const i = Math.min(Math.max(Math.floor(Math.log(bytes) / Math.log(k)), 0), 3);
+  return `${(bytes / k ** i).toFixed(1)} ${sizes[i] ?? "GB"}`;
+}
@@ -0,0 +1,291 @@
+import { escapeHtml } from "./pages";
+
+// A small tokenizer rather than a full grammar: comments, strings, numbers
+// and keywords are enough to make shared code readable.
+
+interface Language {
+  lineComment?: string;
+  blockComment?: [string, string];
+  backtick?: boolean;
+  keywords: string[];
+}
+
+const C_KEYWORDS = [
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "default",
+  "do",
+  "else",
+  "enum",
+  "export",
+  "extends",
+  "false",
+  "finally",
+  "for",
+  "if",
+  "import",
+  "interface",
+  "new",
+  "null",
+  "private",
+  "protected",
+  "public",
+  "return",
+  "static",
+  "struct",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "void",
+  "while",
+];
+
+const LANGUAGES: Record<string, Language> = {
+  c: { lineComment: "//", blockComment: ["/*", "*/"], keywords: C_KEYWORDS },
+  js: {
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    backtick: true,
+    keywords: [
+      ...C_KEYWORDS,
+      "async",
+      "await",
+      "from",
+      "function",
+      "let",
+      "of",
+      "type",
+      "typeof",
+      "undefined",
+      "var",
+      "yield",
+    ],
+  },
+  go: {
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    backtick: true,
+    keywords: [...C_KEYWORDS, "defer", "func", "go", "nil", "package", "var"],
+  },
+  rust: {
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    keywords: [
+      ...C_KEYWORDS,
+      "fn",
+      "impl",
+      "let",
+      "match",
+      "mod",
+      "mut",
+      "pub",
+      "self",
+      "use",
+    ],
+  },
+  python: {
+    lineComment: "#",
+    keywords: [
+      "and",
+      "as",
+      "class",
+      "def",
+      "elif",
+      "else",
+      "except",
+      "False",
+      "finally",
+      "for",
+      "from",
+      "if",
+      "import",
+      "in",
+      "is",
+      "lambda",
+      "None",
+      "not",
+      "or",
+      "pass",
+      "raise",
+      "return",
+      "True",
+      "try",
+      "while",
+      "with",
+      "yield",
+    ],
+  },
+  shell: {
+    lineComment: "#",
+    keywords: [
+      "case",
+      "do",
+      "done",
+      "elif",
+      "else",
+      "esac",
+      "export",
+      "fi",
+      "for",
+      "function",
+      "if",
+      "in",
+      "local",
+      "return",
+      "then",
+      "while",
+    ],
+  },
+  sql: {
+    lineComment: "--",
+    blockComment: ["/*", "*/"],
+    keywords: [
+      "and",
+      "by",
+      "create",
+      "delete",
+      "from",
+      "group",
+      "insert",
+      "into",
+      "join",
+      "not",
+      "null",
+      "on",
+      "or",
+      "order",
+      "select",
+      "set",
+      "table",
+      "update",
+      "values",
+      "where",
+    ],
+  },
+  config: { lineComment: "#", keywords: ["false", "null", "true"] },
+  data: { keywords: ["false", "null", "true"] },
+  markup: { blockComment: ["<!--", "-->"], keywords: [] },
+  plain: { keywords: [] },
+};
+
+const EXTENSIONS: Record<string, string> = {
+  c: "c",
+  cc: "c",
+  cpp: "c",
+  cs: "c",
+  css: "c",
+  h: "c",
+  hpp: "c",
+  java: "c",
+  kt: "c",
+  scss: "c",
+  swift: "c",
+  cjs: "js",
+  js: "js",
+  jsx: "js",
+  mjs: "js",
+  ts: "js",
+  tsx: "js",
+  go: "go",
+  rs: "rust",
+  py: "python",
+  rb: "python",
+  bash: "shell",
+  sh: "shell",
+  zsh: "shell",
+  sql: "sql",
+  conf: "config",
+  env: "config",
+  ini: "config",
+  toml: "config",
+  yaml: "config",
+  yml: "config",
+  json: "data",
+  csv: "plain",
+  log: "plain",
+  md: "plain",
+  txt: "plain",
+  htm: "markup",
+  html: "markup",
+  svg: "markup",
+  xml: "markup",
+};
+
+function extension(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot === -1 ? "" : name.slice(dot + 1).toLowerCase();
+}
+
+export function languageFor(name: string): string | null {
+  return EXTENSIONS[extension(name)] ?? null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const patterns: Map<string, RegExp> = new Map();
+
+function patternFor(language: string): RegExp {
+  const cached = patterns.get(language);
+  if (cached) {
+    return cached;
+  }
+  const lang = LANGUAGES[language] ?? LANGUAGES["plain"];
+  const comments: string[] = [];
+  if (lang?.lineComment) {
+    comments.push(`${escapeRegExp(lang.lineComment)}[^\\n]*`);
+  }
+  if (lang?.blockComment) {
+    const [open, close] = lang.blockComment.map(escapeRegExp);
+    comments.push(`${open ?? ""}[\\s\\S]*?(?:${close ?? ""}|$)`);
+  }
+  const quotes = lang?.backtick ? "\"'`" : "\"'";
+  const strings = [...quotes].map(
+    (q) => `${q}(?:\\\\[\\s\\S]|[^${q}\\\\${q === "`" ? "" : "\\n"}])*${q}?`,
+  );
+  const pattern = new RegExp(
+    [
+      `(${comments.join("|") || "(?!)"})`,
+      `(${strings.join("|")})`,
+      "(\\b\\d[\\w.]*)",
+      "([A-Za-z_]\\w*)",
+    ].join("|"),
+    "g",
+  );
+  patterns.set(language, pattern);
+  return pattern;
+}
+
+// Returns escaped HTML with <span> classes c, s, n and k
+export function highlight(code: string, language: string): string {
+  const keywords = new Set(LANGUAGES[language]?.keywords ?? []);
+  let html = "";
+  let last = 0;
+  for (const match of code.matchAll(patternFor(language))) {
+    const [token, comment, string, number, word] = match;
+    html += escapeHtml(code.slice(last, match.index));
+    last = match.index + token.length;
+
+    let cls: string | null = null;
+    if (comment) {
+      cls = "c";
+    } else if (string) {
+      cls = "s";
+    } else if (number) {
+      cls = "n";
+    } else if (word && keywords.has(word)) {
+      cls = "k";
+    }
+    html += cls
+      ? `<span class="${cls}">${escapeHtml(token)}</span>`
+      : escapeHtml(token);
+  }
+  return html + escapeHtml(code.slice(last));
+}
@@ -0,0 +1,117 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { nanoid } from "nanoid";
+import type { UserEntry } from "./config";
+import { config } from "./config";
+import { storage, uploadsDir, withKeyLock } from "./storage";
+
+const STORE_NAME = "buckets.json";
+
+// User name -> bucket id, so the id survives a change of secret
+let store: { path: string; ids: Map<string, string> } | null = null;
+
+// Passwords already checked against a hashed secret, keyed by a digest of both
+const verified: Set<string> = new Set();
+
+function storePath(): string {
+  return join(config.data_dir, STORE_NAME);
+}
+
+// Reloaded when data_dir changes in the config
+function loadStore(): Map<string, string> {
+  const path = storePath();
+  if (store?.path === path) {
+    return store.ids;
+  }
+  let ids: Map<string, string>;
+  try {
+    const content = readFileSync(path, "utf-8");
+    ids = new Map(Object.entries(JSON.parse(content) as object));
+  } catch {
+    ids = new Map();
+  }
+  store = { path, ids };
+  return ids;
+}
+
+function saveStore(ids: Map<string, string>): void {
+  mkdirSync(config.data_dir, { recursive: true });
+  const tmpPath = `${storePath()}.${nanoid(6)}`;
+  writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(ids), null, 2), {
+    mode: 0o600,
+  });
+  renameSync(tmpPath, storePath());
+}
+
+function isHashed(secret: string): boolean {
+  return secret.startsWith("$argon2") || /^\$2[aby]\$/.test(secret);
+}
+
+// Buckets used to be named after the password itself; kept for the
+// passwords array and for adopting such buckets into [[users]]
+export function legacyBucketId(password: string): string {
+  const hash = Bun.hash(password);
+  return hash.toString(16).slice(0, 12);
+}
+
+// A bucket set in the config wins. Otherwise each user gets a random id on
+// first sight, except that an existing bucket named after a plaintext secret
+// is taken over so its links keep working.
+export async function bucketIdFor(user: UserEntry): Promise<string> {
+  if (user.bucket) {
+    return user.bucket;
+  }
+  const known = loadStore().get(user.name);
+  if (known) {
+    return known;
+  }
+
+  // Two requests from a new user must not hand out two ids
+  return await withKeyLock(storePath(), async () => {
+    const ids = loadStore();
+    const assigned = ids.get(user.name);
+    if (assigned) {
+      return assigned;
+    }
+    let id = nanoid(12);
+    if (!isHashed(user.secret)) {
+      const legacy = legacyBucketId(user.secret);
+      if ((await storage().list(join(uploadsDir(), legacy))).length > 0) {
+        id = legacy;
+      }
+    }
+    ids.set(user.name, id);
+    saveStore(ids);
+    console.log(`Assigned bucket ${id} to user ${user.name}`);
+    return id;
+  });
+}
+
+// Secrets are either plaintext or a Bun.password hash (argon2 or bcrypt)
+export async function verifySecret(
+  secret: string,
+  password: string,
+): Promise<boolean> {
+  if (!isHashed(secret)) {
+    const expected = Buffer.from(secret);
+    const given = Buffer.from(password);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  }
+
+  const key = createHash("sha256")
+    .update(`${secret}\0${password}`)
+    .digest("hex");
+  if (verified.has(key)) {
+    return true;
+  }
+  try {
+    if (await Bun.password.verify(password, secret)) {
+      verified.add(key);
+      return true;
+    }
+  } catch {
+    // Malformed hash in the config
+  }
+  return false;
+}
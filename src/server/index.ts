@@ -1,97 +1,152 @@
 import { watchFile } from "node:fs";
-import { mkdir, readdir, rm, stat } from "node:fs/promises";
 import { homedir } from "node:os";
 import { join } from "node:path";
 import process from "node:process";
-import { ZipArchive } from "archiver";
 import { nanoid } from "nanoid";
+import { handleAdminApi } from "./admin";
+import { sweepBlobs } from "./blobs";
+import type { Account } from "./buckets";
+import {
+  authenticate,
+  checkSharePolicy,
+  defaultTtlMs,
+  isAdmin,
+  isAdminPassword,
+  maxRequestBytes,
+  parseEncryptedMeta,
+  parseExpiryHours,
+  parseMaxDownloads,
+  requireScope,
+  shareTtlMs,
+  userForPassword,
+} from "./buckets";
+import { cleanup } from "./cleanup";
 import { config } from "./config";
+import { handleDownload } from "./download";
+import { safeRelativePaths } from "./filenames";
+import {
+  deleteRequest,
+  handleCreateRequest,
+  handleFileRequest,
+  listRequests,
+} from "./filerequests";
+import type { ShareManifest, WrittenFile } from "./manifest";
+import { createShare, hashing, migrateLegacyShares } from "./manifest";
+import { appShell, DIST_DIR } from "./pages";
+import type { RouteClass } from "./ratelimit";
+import {
+  clientIp,
+  evictStale,
+  lockedFor,
+  rateLimit,
+  recordFailure,
+  tooManyRequests,
+} from "./ratelimit";
+import {
+  checkCsrf,
+  createSession,
+  endSession,
+  hasCredentialHeader,
+  sessionCookie,
+  sessionFor,
+} from "./sessions";
+import {
+  handleDeleteShare,
+  handleExtendShare,
+  handleGetShare,
+  handleListShares,
+  handleRemoveFile,
+} from "./shares";
+import { storage, uploadsDir } from "./storage";
+import type { TokenOwner } from "./tokens";
+import { handleCreateToken, listTokens, revokeToken } from "./tokens";
+import { hashPassphrase } from "./unlock";
+import {
+  handleCreateUpload,
+  handleFinalizeUpload,
+  handleUploadChunk,
+  handleUploadStatus,
+  uploadResult,
+} from "./uploads";
+import { bucketUsage, reconcileUsage, reserve, shareBytes } from "./usage";
 
-const DIST_DIR = "./dist/client";
 const HOUR_MS: number = 60 * 60 * 1000;
-const RATE_LIMIT_WINDOW: number = 60 * 1000; // 1 minute
-const RATE_LIMIT_MAX: number = 30; // 30 requests per minute
+const EVICT_INTERVAL_MS: number = 10 * 60 * 1000;
 
-const rateLimitMap: Map<string, { count: number; resetAt: number }> = new Map();
-
-function isRateLimited(ip: string): boolean {
-  const now = Date.now();
-  const entry = rateLimitMap.get(ip);
-
-  if (!entry || now > entry.resetAt) {
-    rateLimitMap.set(ip, { count: 1, resetAt: now + RATE_LIMIT_WINDOW });
-    return false;
+function routeClassFor(pathname: string): RouteClass | null {
+  if (pathname.startsWith("/d/")) {
+    return "download";
   }
-
-  entry.count += 1;
-  return entry.count > RATE_LIMIT_MAX;
-}
-
-function getClientIp(req: Request): string {
-  return (
-    req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ??
-    req.headers.get("x-real-ip") ??
-    "unknown"
-  );
-}
-
-function hashPassword(password: string): string {
-  const hash = Bun.hash(password);
-  return hash.toString(16).slice(0, 12);
+  if (
+    pathname === "/api/upload" ||
+    pathname.startsWith("/api/uploads") ||
+    pathname.startsWith("/r/")
+  ) {
+    return "upload";
+  }
+  if (
+    pathname.startsWith("/api/shares") ||
+    pathname.startsWith("/api/requests") ||
+    pathname.startsWith("/api/tokens")
+  ) {
+    return "shares";
+  }
+  if (pathname.startsWith("/api/admin/")) {
+    return "admin";
+  }
+  if (pathname === "/api/quota") {
+    return "quota";
+  }
+  if (pathname === "/api/session") {
+    return "auth";
+  }
+  return null;
 }
 
-async function getDirSize(dirPath: string): Promise<number> {
-  let total = 0;
-  try {
-    const entries = await readdir(dirPath, { withFileTypes: true });
-    for (const entry of entries) {
-      const fullPath = join(dirPath, entry.name);
-      if (entry.isDirectory()) {
-        total += await getDirSize(fullPath);
-      } else {
-        const fileStat = await stat(fullPath);
-        total += fileStat.size;
-      }
-    }
-  } catch {
-    // Directory doesn't exist
+// Wrong passwords count against the client IP on every route that takes
+// one. Only a credential that belongs to nobody counts, and a success
+// doesn't wipe the count, or one known password between guesses would keep
+// the lockout from ever starting. Each credential is checked once; the
+// handler gets the account it was checked for.
+async function withPasswordLockout(
+  req: Request,
+  ip: string,
+  handle: (account: Account) => Promise<Response> | Response,
+): Promise<Response> {
+  const key = `password:${ip}`;
+  const locked = lockedFor(key);
+  if (locked > 0) {
+    return tooManyRequests(locked);
+  }
+  const account = await authenticate(req);
+  if (account) {
+    return await handle(account);
   }
-  return total;
+  if (hasCredentialHeader(req) && !(await isAdmin(req))) {
+    recordFailure(key);
+  }
+  return new Response("Unauthorized", { status: 401 });
 }
 
-async function cleanupExpiredShares(): Promise<void> {
-  const ttlMs = config.share_ttl_days * 24 * HOUR_MS;
-  const now = Date.now();
-  const uploadsDir = join(config.data_dir, "uploads");
-
-  try {
-    const buckets = await readdir(uploadsDir);
-    for (const bucket of buckets) {
-      const bucketPath = join(uploadsDir, bucket);
-      const shares = await readdir(bucketPath);
-
-      for (const shareId of shares) {
-        const sharePath = join(bucketPath, shareId);
-        try {
-          const shareStat = await stat(sharePath);
-          if (now - shareStat.mtimeMs > ttlMs) {
-            await rm(sharePath, { recursive: true });
-            console.log(`Deleted expired share: ${bucket}/${shareId}`);
-          }
-        } catch {
-          // Skip if can't stat
-        }
-      }
-
-      // Remove empty bucket folders
-      const remaining = await readdir(bucketPath);
-      if (remaining.length === 0) {
-        await rm(bucketPath);
-      }
-    }
-  } catch {
-    // uploads dir doesn't exist yet
+// The same for the admin API, where it is a user's password that doesn't
+// count as a guess
+async function withAdminLockout(
+  req: Request,
+  ip: string,
+  handle: () => Promise<Response>,
+): Promise<Response> {
+  const key = `password:${ip}`;
+  const locked = lockedFor(key);
+  if (locked > 0) {
+    return tooManyRequests(locked);
+  }
+  if (await isAdmin(req)) {
+    return await handle();
+  }
+  if (hasCredentialHeader(req) && !(await authenticate(req))) {
+    recordFailure(key);
   }
+  return new Response("Unauthorized", { status: 401 });
 }
 
 async function serveStatic(pathname: string): Promise<Response> {
@@ -104,203 +159,468 @@ async function serveStatic(pathname: string): Promise<Response> {
   }
 
   // SPA fallback
-  const indexFile = Bun.file(join(DIST_DIR, "index.html"));
-  if (await indexFile.exists()) {
-    return new Response(indexFile);
-  }
-
-  return new Response("Not Found", { status: 404 });
+  return await appShell();
 }
 
-async function handleDownload(pathname: string): Promise<Response> {
-  // /d/:bucket/:shareId
-  const parts = pathname.split("/").filter(Boolean);
-  if (parts.length < 3) {
-    return new Response("Invalid path", { status: 400 });
+async function handleUpload(req: Request, account: Account): Promise<Response> {
+  const denied = requireScope(account, "upload");
+  if (denied) {
+    return denied;
   }
+  const { bucket } = account;
+
+  const formData = await req.formData();
+  const files = formData
+    .getAll("files")
+    .filter((f): f is File => f instanceof File);
 
-  const bucket = parts[1];
-  const shareId = parts[2];
-  if (!(bucket && shareId)) {
-    return new Response("Invalid path", { status: 400 });
+  if (files.length === 0) {
+    return new Response("No files provided", { status: 400 });
+  }
+  // Multipart file names may carry a folder upload's relative path
+  const names = safeRelativePaths(files.map((f) => f.name));
+  if (!names) {
+    return new Response("Invalid file list", { status: 400 });
   }
 
-  const shareDir = join(config.data_dir, "uploads", bucket, shareId);
-  const burnFile = join(shareDir, ".burn");
+  const ttlMs = parseExpiryHours(formData.get("expiryHours"), account);
+  if (ttlMs === null) {
+    return new Response("Invalid expiry", { status: 400 });
+  }
+  const maxDownloads = parseMaxDownloads(
+    formData.get("maxDownloads"),
+    formData.get("burn"),
+  );
+  if (maxDownloads === undefined) {
+    return new Response("Invalid download limit", { status: 400 });
+  }
+  const encryptedMeta = parseEncryptedMeta(formData.get("encryptedMeta"));
+  if (encryptedMeta === undefined) {
+    return new Response("Invalid encrypted file list", { status: 400 });
+  }
+  const passphrase = formData.get("passphrase");
+  const violation = checkSharePolicy(account, {
+    maxDownloads,
+    protected: typeof passphrase === "string" && passphrase !== "",
+    encrypted: encryptedMeta !== null,
+    fileCount: files.length,
+  });
+  if (violation) {
+    return new Response(violation, { status: 403 });
+  }
 
-  try {
-    const allFiles = await readdir(shareDir);
-    const files = allFiles.filter((f) => f !== ".burn");
-    if (files.length === 0) {
-      return new Response("Not Found", { status: 404 });
+  // Calculate upload size
+  let uploadSize = 0;
+  for (const file of files) {
+    if (file.size > account.maxFileBytes) {
+      return new Response("File too large", { status: 413 });
     }
+    uploadSize += file.size;
+  }
 
-    // Check if burn-after-download is enabled
-    const shouldBurn = await Bun.file(burnFile).exists();
-
-    let response: Response;
-
-    // Single file - serve directly
-    if (files.length === 1 && files[0]) {
-      const filename = files[0];
-      const file = Bun.file(join(shareDir, filename));
-      response = new Response(file, {
-        headers: {
-          "Content-Disposition": `attachment; filename="${encodeURIComponent(filename)}"`,
-          "Content-Type": file.type || "application/octet-stream",
-        },
-      });
-    } else {
-      // Multiple files - serve as zip
-      const archive = new ZipArchive({ zlib: { level: 5 } });
-      for (const filename of files) {
-        archive.file(join(shareDir, filename), { name: filename });
-      }
-      archive.finalize();
-
-      response = new Response(archive as unknown as BodyInit, {
-        headers: {
-          "Content-Disposition": `attachment; filename="${shareId}.zip"`,
-          "Content-Type": "application/zip",
-        },
-      });
-    }
+  // Reserve room in the bucket before writing anything
+  const maxBytes = account.maxBucketBytes;
+  const reservation = reserve(bucket, uploadSize, maxBytes);
+  if (!reservation) {
+    const available = Math.max(0, maxBytes - bucketUsage(bucket));
+    const availableMb = Math.floor(available / 1024 / 1024);
+    return new Response(`Quota exceeded. ${availableMb}MB available.`, {
+      status: 413,
+    });
+  }
 
-    // Delete after serving if burn flag is set
-    if (shouldBurn) {
-      setTimeout(() => {
-        rm(shareDir, { recursive: true }).catch(() => {});
-      }, 1000);
+  // Save files
+  const shareId = nanoid(8);
+  const shareDir = join(uploadsDir(), bucket, shareId);
+  let manifest: ShareManifest;
+  try {
+    const written: WrittenFile[] = [];
+    for (const [i, file] of files.entries()) {
+      const name = names[i] ?? file.name;
+      const hasher = new Bun.CryptoHasher("sha256");
+      await storage().put(join(shareDir, name), hashing(file.stream(), hasher));
+      written.push({ name, sha256: hasher.digest("hex") });
     }
 
-    return response;
-  } catch {
-    return new Response("Not Found", { status: 404 });
+    manifest = await createShare(shareDir, written, {
+      bucket,
+      maxDownloads,
+      createdAt: Date.now(),
+      ttlMs,
+      encryptedMeta,
+      passphraseHash:
+        typeof passphrase === "string" && passphrase
+          ? await hashPassphrase(passphrase)
+          : undefined,
+    });
+    // Charged by what was written, not what the form claimed
+    reservation.commit(shareBytes(manifest));
+  } catch (err) {
+    reservation.release();
+    await storage().delete(shareDir);
+    throw err;
   }
+
+  return uploadResult(bucket, shareId, manifest);
 }
 
-async function handleUpload(req: Request): Promise<Response> {
-  const password = req.headers.get("X-Password");
+function handleQuota(account: Account): Response {
+  const denied = requireScope(account, "quota");
+  if (denied) {
+    return denied;
+  }
+  const used = bucketUsage(account.bucket);
+  const max = account.maxBucketBytes;
+  return Response.json(
+    {
+      name: account.name,
+      used,
+      max,
+      available: max - used,
+      maxFileBytes: account.maxFileBytes,
+      maxTtlHours: Math.floor(account.maxTtlMs / HOUR_MS),
+      defaultTtlHours: Math.floor(defaultTtlMs(account) / HOUR_MS),
+      allowBurn: account.allowBurn,
+      allowPublic: account.allowPublic,
+    },
+    { headers: { "Access-Control-Allow-Origin": "*" } },
+  );
+}
 
-  if (!(password && config.passwords.includes(password))) {
-    return new Response("Unauthorized", { status: 401 });
+async function handleChunkedUpload(
+  req: Request,
+  account: Account,
+  pathname: string,
+): Promise<Response> {
+  const denied = requireScope(account, "upload");
+  if (denied) {
+    return denied;
   }
+  const { bucket } = account;
 
-  const formData = await req.formData();
-  const files = formData.getAll("files");
+  // /api/uploads, /api/uploads/:id, /api/uploads/:id/finalize,
+  // /api/uploads/:id/:fileIndex/:chunkIndex
+  const parts = pathname.split("/").filter(Boolean).slice(2);
+  const [uploadId, first, second] = parts;
 
-  if (files.length === 0) {
-    return new Response("No files provided", { status: 400 });
+  if (!uploadId && req.method === "POST") {
+    return handleCreateUpload(req, account);
   }
-
-  // Calculate upload size
-  let uploadSize = 0;
-  for (const file of files) {
-    if (file instanceof File) {
-      uploadSize += file.size;
-    }
+  if (uploadId && parts.length === 1 && req.method === "GET") {
+    return handleUploadStatus(bucket, uploadId);
   }
-
-  // Check bucket quota
-  const bucket = hashPassword(password);
-  const bucketDir = join(config.data_dir, "uploads", bucket);
-  const currentSize = await getDirSize(bucketDir);
-  const maxBytes = config.max_bucket_size_mb * 1024 * 1024;
-
-  if (currentSize + uploadSize > maxBytes) {
-    const availableMb = Math.floor((maxBytes - currentSize) / 1024 / 1024);
-    return new Response(`Quota exceeded. ${availableMb}MB available.`, {
-      status: 413,
+  if (uploadId && first === "finalize" && req.method === "POST") {
+    return handleFinalizeUpload(req, account, uploadId);
+  }
+  if (
+    uploadId &&
+    parts.length === 3 &&
+    req.method === "PUT" &&
+    /^\d+$/.test(first ?? "") &&
+    /^\d+$/.test(second ?? "")
+  ) {
+    return handleUploadChunk(req, account, {
+      uploadId,
+      fileIndex: Number(first),
+      chunkIndex: Number(second),
     });
   }
+  return new Response("Not Found", { status: 404 });
+}
+
+async function handleShareApi(
+  req: Request,
+  account: Account,
+  pathname: string,
+): Promise<Response> {
+  const denied = requireScope(account, "shares");
+  if (denied) {
+    return denied;
+  }
 
-  // Save files
-  const shareId = nanoid(8);
-  const shareDir = join(bucketDir, shareId);
-  await mkdir(shareDir, { recursive: true });
+  // /api/shares, /api/shares/:shareId, /api/shares/:shareId/extend,
+  // /api/shares/:shareId/files/:path
+  const [shareId, action, ...path] = pathname
+    .split("/")
+    .filter(Boolean)
+    .slice(2);
 
-  for (const file of files) {
-    if (file instanceof File) {
-      const filePath = join(shareDir, file.name);
-      await Bun.write(filePath, file);
+  if (!shareId && req.method === "GET") {
+    return handleListShares(account);
+  }
+  if (shareId && !action && req.method === "GET") {
+    return handleGetShare(account, shareId);
+  }
+  if (shareId && !action && req.method === "DELETE") {
+    return handleDeleteShare(account, shareId);
+  }
+  if (shareId && action === "extend" && req.method === "POST") {
+    return handleExtendShare(req, account, shareId);
+  }
+  // Files are added with the chunked upload API and a shareId
+  if (
+    shareId &&
+    action === "files" &&
+    path.length > 0 &&
+    req.method === "DELETE"
+  ) {
+    let name: string;
+    try {
+      name = decodeURIComponent(path.join("/"));
+    } catch {
+      return new Response("Invalid file name", { status: 400 });
     }
+    return handleRemoveFile(account, shareId, name);
   }
+  return new Response("Not Found", { status: 404 });
+}
 
-  // Create burn marker if requested
-  const burn = formData.get("burn");
-  if (burn === "true") {
-    await Bun.write(join(shareDir, ".burn"), "");
+async function handleRequestApi(
+  req: Request,
+  account: Account,
+  pathname: string,
+): Promise<Response> {
+  const denied = requireScope(account, "shares");
+  if (denied) {
+    return denied;
   }
 
-  const url = `/d/${bucket}/${shareId}`;
-  return Response.json({ url });
+  // /api/requests, /api/requests/:requestId
+  const [requestId, ...rest] = pathname.split("/").filter(Boolean).slice(2);
+  if (rest.length > 0) {
+    return new Response("Not Found", { status: 404 });
+  }
+  if (!requestId && req.method === "GET") {
+    return Response.json(listRequests(account));
+  }
+  if (!requestId && req.method === "POST") {
+    return handleCreateRequest(req, account);
+  }
+  if (requestId && req.method === "DELETE") {
+    return deleteRequest(account, requestId)
+      ? new Response(null, { status: 204 })
+      : new Response("Not Found", { status: 404 });
+  }
+  return new Response("Not Found", { status: 404 });
 }
 
-async function handleQuota(req: Request): Promise<Response> {
-  const ip = getClientIp(req);
-  if (isRateLimited(ip)) {
-    return new Response("Too many requests", { status: 429 });
+async function handleLogin(req: Request, ip: string): Promise<Response> {
+  const key = `password:${ip}`;
+  const locked = lockedFor(key);
+  if (locked > 0) {
+    return tooManyRequests(locked);
+  }
+  // JSON only, so another site can't post a login form at us
+  if (!req.headers.get("Content-Type")?.startsWith("application/json")) {
+    return new Response("Expected JSON", { status: 415 });
+  }
+  let body: { password?: unknown };
+  try {
+    body = (await req.json()) as { password?: unknown };
+  } catch {
+    return new Response("Invalid JSON", { status: 400 });
   }
+  const password = typeof body.password === "string" ? body.password : "";
 
-  const password = req.headers.get("X-Password");
-  if (!(password && config.passwords.includes(password))) {
+  const user = password ? await userForPassword(password) : null;
+  const admin = password ? await isAdminPassword(password) : false;
+  if (!(user || admin)) {
+    recordFailure(key);
     return new Response("Unauthorized", { status: 401 });
   }
-  const bucket = hashPassword(password);
-  const bucketDir = join(config.data_dir, "uploads", bucket);
-  const used = await getDirSize(bucketDir);
-  const max = config.max_bucket_size_mb * 1024 * 1024;
+
+  const { id, session } = createSession({
+    user: user?.name ?? null,
+    userSecret: user?.secret ?? null,
+    adminSecret: admin ? (config.admin_password ?? null) : null,
+  });
   return Response.json(
-    { used, max, available: max - used },
-    { headers: { "Access-Control-Allow-Origin": "*" } },
+    { name: session.user, admin, csrfToken: session.csrfToken },
+    { headers: { "Set-Cookie": sessionCookie(req, id) } },
   );
 }
 
+// /api/session: POST logs in, GET tells the web UI who is logged in after
+// a reload, DELETE logs out
+async function handleSessionApi(req: Request, ip: string): Promise<Response> {
+  if (req.method === "POST") {
+    return handleLogin(req, ip);
+  }
+  if (req.method === "DELETE") {
+    endSession(req);
+    return new Response(null, {
+      status: 204,
+      headers: { "Set-Cookie": sessionCookie(req, null) },
+    });
+  }
+  const session = sessionFor(req);
+  if (req.method !== "GET" || !session) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  // The config may have changed since the login
+  const account = await authenticate(req);
+  const admin = await isAdmin(req);
+  if (!(account || admin)) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  return Response.json({
+    name: account?.name ?? null,
+    admin,
+    csrfToken: session.csrfToken,
+  });
+}
+
+// Tokens are managed with the password or a web login only, so a leaked
+// token can't mint itself a wider one
+async function handleTokenApi(
+  req: Request,
+  account: Account,
+  pathname: string,
+): Promise<Response> {
+  if (account.tokenId !== null) {
+    return new Response("Tokens can't manage tokens", { status: 403 });
+  }
+
+  // /api/tokens, /api/tokens/:tokenId
+  const [tokenId, ...rest] = pathname.split("/").filter(Boolean).slice(2);
+  if (rest.length > 0) {
+    return new Response("Not Found", { status: 404 });
+  }
+  const owner: TokenOwner = { user: account.name, bucket: account.bucket };
+  if (!tokenId && req.method === "GET") {
+    return Response.json(listTokens(owner));
+  }
+  if (!tokenId && req.method === "POST") {
+    return handleCreateToken(req, owner);
+  }
+  if (tokenId && req.method === "DELETE") {
+    return revokeToken(owner, tokenId)
+      ? new Response(null, { status: 204 })
+      : new Response("Not Found", { status: 404 });
+  }
+  return new Response("Not Found", { status: 404 });
+}
+
 // Start cleanup timer (runs every hour)
 setInterval(() => {
-  cleanupExpiredShares().catch((err: unknown) => {
+  cleanup().catch((err: unknown) => {
     console.error("Cleanup error:", err);
   });
 }, HOUR_MS);
 
+setInterval(evictStale, EVICT_INTERVAL_MS);
+
+// Older shares are brought up to the current layout before anything is
+// served
+await migrateLegacyShares(uploadsDir(), shareTtlMs());
+await reconcileUsage();
+const orphanBlobs: number = await sweepBlobs();
+if (orphanBlobs > 0) {
+  console.log(`Deleted ${String(orphanBlobs)} unreferenced blobs`);
+}
+
 // Run cleanup on startup
-cleanupExpiredShares().catch((err: unknown) => {
+cleanup().catch((err: unknown) => {
   console.error("Initial cleanup error:", err);
 });
 
 const server: ReturnType<typeof Bun.serve> = Bun.serve({
   port: config.port,
-  maxRequestBodySize: config.max_file_size_mb * 1024 * 1024,
+  // Only read here, so a raised file size limit needs a restart
+  maxRequestBodySize: maxRequestBytes(),
   fetch(req: Request): Promise<Response> | Response {
     const url = new URL(req.url);
+    const ip = clientIp(req, server.requestIP(req)?.address);
 
     // CORS for dev
     if (req.method === "OPTIONS") {
       return new Response(null, {
         headers: {
           "Access-Control-Allow-Origin": "*",
-          "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-          "Access-Control-Allow-Headers": "Content-Type, X-Password",
+          "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+          "Access-Control-Allow-Headers":
+            "Content-Type, X-Password, Authorization, X-CSRF-Token",
         },
       });
     }
 
-    // Download - no auth required
+    const routeClass = routeClassFor(url.pathname);
+    const wait = routeClass ? rateLimit(routeClass, ip) : 0;
+    if (wait > 0) {
+      return tooManyRequests(wait);
+    }
+
+    if (url.pathname.startsWith("/api/")) {
+      const forged = checkCsrf(req);
+      if (forged) {
+        return forged;
+      }
+    }
+
+    // Login, logout and the current session
+    if (url.pathname === "/api/session") {
+      return handleSessionApi(req, ip);
+    }
+
+    // Download - no auth required unless the share has a passphrase
     if (url.pathname.startsWith("/d/")) {
-      return handleDownload(url.pathname);
+      return handleDownload(req, url, ip);
+    }
+
+    // Upload through a file request - no auth, the link is the permission
+    if (url.pathname.startsWith("/r/")) {
+      return handleFileRequest(req, url);
     }
 
     // Upload - requires password
     if (url.pathname === "/api/upload" && req.method === "POST") {
-      return handleUpload(req).then((response) => {
+      return withPasswordLockout(req, ip, (account) =>
+        handleUpload(req, account),
+      ).then((response) => {
         response.headers.set("Access-Control-Allow-Origin", "*");
         return response;
       });
     }
 
+    // Chunked, resumable upload - requires password
+    if (url.pathname.startsWith("/api/uploads")) {
+      return withPasswordLockout(req, ip, (account) =>
+        handleChunkedUpload(req, account, url.pathname),
+      ).then((response) => {
+        response.headers.set("Access-Control-Allow-Origin", "*");
+        return response;
+      });
+    }
+
+    // Share management - requires password
+    if (url.pathname.startsWith("/api/shares")) {
+      return withPasswordLockout(req, ip, (account) =>
+        handleShareApi(req, account, url.pathname),
+      );
+    }
+
+    // File requests - requires password
+    if (url.pathname.startsWith("/api/requests")) {
+      return withPasswordLockout(req, ip, (account) =>
+        handleRequestApi(req, account, url.pathname),
+      );
+    }
+
+    // API tokens - requires password
+    if (url.pathname.startsWith("/api/tokens")) {
+      return withPasswordLockout(req, ip, (account) =>
+        handleTokenApi(req, account, url.pathname),
+      );
+    }
+
+    // Administration - requires the admin password
+    if (url.pathname.startsWith("/api/admin/")) {
+      return withAdminLockout(req, ip, () => handleAdminApi(req, url.pathname));
+    }
+
     // Quota check - requires password
     if (url.pathname === "/api/quota" && req.method === "GET") {
-      return handleQuota(req);
+      return withPasswordLockout(req, ip, handleQuota);
     }
 
     // Serve frontend
@@ -0,0 +1,330 @@
+import { join } from "node:path";
+import { releaseBlobs, storeBlob } from "./blobs";
+import { storage, withKeyLock } from "./storage";
+
+export const MANIFEST_NAME = ".manifest.json";
+export const LEGACY_BURN_MARKER = ".burn";
+// Holds the time shares started getting manifests on this storage
+const MANIFESTS_SINCE_KEY = ".manifests-since";
+
+export interface ManifestFile {
+  name: string;
+  size: number;
+  type: string;
+  sha256: string;
+}
+
+// Files live in the blob store under their sha256, not in the share
+export interface ShareManifest {
+  version: 3;
+  createdAt: number;
+  expiresAt: number;
+  bucket: string;
+  // Deleted once this many downloads have completed; null for no limit
+  maxDownloads: number | null;
+  downloads: number;
+  passphraseHash?: string;
+  // End-to-end encrypted: the real names, sizes and types, encrypted with a
+  // key only the link holds. Files are stored under their index.
+  encryptedMeta?: string;
+  // The file request it was sent through, if an outsider sent it
+  requestId?: string;
+  files: ManifestFile[];
+}
+
+// Version 2 kept each file in the share directory under its own name
+interface ManifestV2 extends Omit<ShareManifest, "version"> {
+  version: 2;
+}
+
+// Version 1 had a burn flag, which is a limit of one download
+interface ManifestV1 extends Omit<ShareManifest, "version" | "maxDownloads"> {
+  version: 1;
+  burn: boolean;
+}
+
+export interface NewShare {
+  bucket: string;
+  maxDownloads: number | null;
+  createdAt: number;
+  ttlMs: number;
+  passphraseHash?: string | undefined;
+  encryptedMeta?: string | null;
+  requestId?: string | undefined;
+}
+
+// A file just written into a share directory, with its hash if that was
+// taken on the way in
+export interface WrittenFile {
+  name: string;
+  sha256?: string;
+}
+
+// Passes the bytes through while hashing them, so a file is hashed as it is
+// written rather than read back afterwards
+export async function* hashing(
+  source: AsyncIterable<Uint8Array>,
+  hasher: Bun.CryptoHasher,
+): AsyncGenerator<Uint8Array> {
+  for await (const chunk of source) {
+    hasher.update(chunk);
+    yield chunk;
+  }
+}
+
+async function sha256File(key: string): Promise<string> {
+  const hasher = new Bun.CryptoHasher("sha256");
+  for await (const chunk of storage().stream(key)) {
+    hasher.update(chunk);
+  }
+  return hasher.digest("hex");
+}
+
+async function describeFile(
+  shareDir: string,
+  { name, sha256 }: WrittenFile,
+): Promise<ManifestFile> {
+  const key = join(shareDir, name);
+  const info = await storage().stat(key);
+  if (!info) {
+    throw new Error(`Missing file ${key}`);
+  }
+  return {
+    name,
+    size: info.size,
+    // Bun guesses the type from the extension without opening anything
+    type: Bun.file(name).type || "application/octet-stream",
+    sha256: sha256 ?? (await sha256File(key)),
+  };
+}
+
+async function buildManifest(
+  shareDir: string,
+  written: WrittenFile[],
+  share: NewShare,
+): Promise<ShareManifest> {
+  const files: ManifestFile[] = [];
+  for (const file of written) {
+    files.push(await describeFile(shareDir, file));
+  }
+  return {
+    version: 3,
+    createdAt: share.createdAt,
+    expiresAt: share.createdAt + share.ttlMs,
+    bucket: share.bucket,
+    maxDownloads: share.maxDownloads,
+    downloads: 0,
+    ...(share.passphraseHash ? { passphraseHash: share.passphraseHash } : {}),
+    ...(share.encryptedMeta ? { encryptedMeta: share.encryptedMeta } : {}),
+    ...(share.requestId ? { requestId: share.requestId } : {}),
+    files,
+  };
+}
+
+// Hands the files in a share directory over to the blob store. If that
+// fails part way, the references taken so far are given back.
+async function storeFiles(
+  shareDir: string,
+  files: ManifestFile[],
+): Promise<void> {
+  const stored: ManifestFile[] = [];
+  try {
+    for (const file of files) {
+      await storeBlob(join(shareDir, file.name), file.sha256);
+      stored.push(file);
+    }
+  } catch (err) {
+    await releaseBlobs(stored);
+    throw err;
+  }
+}
+
+// Turns the files just written into shareDir into a share. The manifest
+// goes last; a share without one is not served.
+export async function createShare(
+  shareDir: string,
+  files: WrittenFile[],
+  share: NewShare,
+): Promise<ShareManifest> {
+  const manifest = await buildManifest(shareDir, files, share);
+  await storeFiles(shareDir, manifest.files);
+  try {
+    await writeManifest(shareDir, manifest);
+  } catch (err) {
+    await releaseBlobs(manifest.files);
+    throw err;
+  }
+  return manifest;
+}
+
+// Adds files just written into shareDir to an existing share and returns
+// the new manifest. The caller holds the share's lock.
+export async function appendFiles(
+  shareDir: string,
+  manifest: ShareManifest,
+  files: WrittenFile[],
+): Promise<ShareManifest> {
+  const added: ManifestFile[] = [];
+  for (const file of files) {
+    added.push(await describeFile(shareDir, file));
+  }
+  await storeFiles(shareDir, added);
+  const updated: ShareManifest = {
+    ...manifest,
+    files: [...manifest.files, ...added],
+  };
+  try {
+    await writeManifest(shareDir, updated);
+  } catch (err) {
+    await releaseBlobs(added);
+    throw err;
+  }
+  return updated;
+}
+
+async function readStoredManifest(
+  shareDir: string,
+): Promise<ShareManifest | ManifestV2 | ManifestV1 | null> {
+  const data = await storage().get(join(shareDir, MANIFEST_NAME));
+  if (!data) {
+    return null;
+  }
+  try {
+    return JSON.parse(new TextDecoder().decode(data)) as
+      | ShareManifest
+      | ManifestV2
+      | ManifestV1;
+  } catch {
+    return null;
+  }
+}
+
+// Older versions are upgraded on disk at startup, but a share is read the
+// same way either way
+export async function readManifest(
+  shareDir: string,
+): Promise<ShareManifest | null> {
+  const manifest = await readStoredManifest(shareDir);
+  if (manifest?.version === 1) {
+    const { burn, ...rest } = manifest;
+    return { ...rest, version: 3, maxDownloads: burn ? 1 : null };
+  }
+  return manifest ? { ...manifest, version: 3 } : null;
+}
+
+// Storage writes are atomic, so readers never see half a manifest
+export async function writeManifest(
+  shareDir: string,
+  manifest: ShareManifest,
+): Promise<void> {
+  await storage().put(
+    join(shareDir, MANIFEST_NAME),
+    JSON.stringify(manifest, null, 2),
+  );
+}
+
+// Runs read-modify-write steps on one share one at a time, so concurrent
+// downloads and edits don't overwrite each other's manifest changes
+export function withShareLock<T>(
+  shareDir: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  return withKeyLock(shareDir, fn);
+}
+
+// Shares from before manifests only had a .burn marker and the file
+// mtimes, so that is what the migrated manifest is built from.
+async function migrateShare(
+  shareDir: string,
+  bucket: string,
+  ttlMs: number,
+): Promise<void> {
+  const entries = await storage().list(shareDir);
+  const files = entries
+    .filter((e) => !e.folder && e.name !== LEGACY_BURN_MARKER)
+    .map((e) => ({ name: e.name }));
+  await createShare(shareDir, files, {
+    bucket,
+    maxDownloads: entries.some((e) => e.name === LEGACY_BURN_MARKER) ? 1 : null,
+    createdAt: Math.floor(Math.max(0, ...entries.map((e) => e.modified))),
+    ttlMs,
+  });
+  await storage().delete(join(shareDir, LEGACY_BURN_MARKER));
+}
+
+// Moves the files of a version 1 or 2 share into the blob store. A file
+// already gone from the share directory was moved by an earlier,
+// interrupted run.
+async function migrateToBlobs(shareDir: string): Promise<void> {
+  const manifest = await readManifest(shareDir);
+  if (!manifest) {
+    return;
+  }
+  for (const file of manifest.files) {
+    const key = join(shareDir, file.name);
+    if (await storage().stat(key)) {
+      await storeBlob(key, file.sha256);
+    }
+  }
+  await writeManifest(shareDir, manifest);
+}
+
+// Written on the first start that knew about manifests, so anything
+// without one that is newer comes from an upload that died, not from
+// before manifests
+async function manifestsSince(): Promise<number> {
+  const stored = await storage().get(MANIFESTS_SINCE_KEY);
+  if (stored) {
+    return Number(new TextDecoder().decode(stored));
+  }
+  const now = Date.now();
+  await storage().put(MANIFESTS_SINCE_KEY, String(now));
+  return now;
+}
+
+// Shares from before manifests were flat and never got any file after
+// manifests came in. Anything else without a manifest is left to the
+// cleanup of incomplete shares.
+async function isLegacyShare(
+  shareDir: string,
+  since: number,
+): Promise<boolean> {
+  const entries = await storage().list(shareDir);
+  if (entries.some((e) => e.name === LEGACY_BURN_MARKER)) {
+    return true;
+  }
+  return (
+    entries.length > 0 && entries.every((e) => !e.folder && e.modified < since)
+  );
+}
+
+export async function migrateLegacyShares(
+  uploadsDir: string,
+  ttlMs: number,
+): Promise<void> {
+  const since = await manifestsSince();
+  const buckets = await storage().list(uploadsDir);
+  for (const { name: bucket } of buckets) {
+    const shares = await storage().list(join(uploadsDir, bucket));
+    for (const { name: shareId } of shares) {
+      const shareDir = join(uploadsDir, bucket, shareId);
+      try {
+        if (!(await storage().stat(join(shareDir, MANIFEST_NAME)))) {
+          if (!(await isLegacyShare(shareDir, since))) {
+            continue;
+          }
+          await migrateShare(shareDir, bucket, ttlMs);
+          console.log(`Migrated share to manifest: ${bucket}/${shareId}`);
+          continue;
+        }
+        const stored = await readStoredManifest(shareDir);
+        if (stored && stored.version !== 3) {
+          await migrateToBlobs(shareDir);
+          console.log(`Moved share files to blobs: ${bucket}/${shareId}`);
+        }
+      } catch (err) {
+        console.error(`Failed to migrate ${bucket}/${shareId}:`, err);
+      }
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { join } from "node:path";
+
+// Where the web app is built to
+export const DIST_DIR = "./dist/client";
+
+const STYLE = `
+  :root { color-scheme: light dark; }
+  body {
+    font-family: system-ui, sans-serif;
+    max-width: 32rem;
+    margin: 4rem auto;
+    padding: 0 1rem;
+    line-height: 1.5;
+  }
+  h1 { font-size: 1.5rem; }
+  input, button { font: inherit; padding: 0.5rem; }
+  input { width: 100%; box-sizing: border-box; margin-bottom: 0.5rem; }
+  .error { color: #e03131; }
+  .meta { font-size: 0.875rem; opacity: 0.7; }
+  .files { padding: 0; list-style: none; }
+  .files li { padding: 0.5rem 0; border-bottom: 1px solid #8884; overflow-wrap: anywhere; }
+  .files .hash { font-size: 0.75rem; opacity: 0.6; }
+  .files img { display: block; max-width: 160px; max-height: 160px; margin-bottom: 0.25rem; }
+  body:has(.preview) { max-width: 64rem; }
+  .preview img, .preview video { max-width: 100%; max-height: 80vh; }
+  .preview audio { width: 100%; }
+  .preview iframe { width: 100%; height: 80vh; border: 1px solid #8884; }
+  .code { overflow: auto; padding: 1rem; border: 1px solid #8884; font-size: 0.875rem; }
+  .code .c { opacity: 0.6; font-style: italic; }
+  .code .s { color: #2f9e44; }
+  .code .n { color: #e8590c; }
+  .code .k { color: #1c7ed6; font-weight: 600; }
+  .button {
+    display: inline-block;
+    padding: 0.5rem 1rem;
+    border-radius: 0.25rem;
+    background: #228be6;
+    color: #fff;
+    text-decoration: none;
+  }
+`;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+// Keeps the slashes of a file inside a folder, so links read as paths
+export function encodePath(name: string): string {
+  return name.split("/").map(encodeURIComponent).join("/");
+}
+
+// Callers escape anything user-controlled before it reaches `body`
+export function renderPage(
+  title: string,
+  body: string,
+  init: ResponseInit = {},
+): Response {
+  const html = `<!DOCTYPE html>
+<html lang="no">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)} – gravplass</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "text/html; charset=utf-8");
+  headers.set(
+    "Content-Security-Policy",
+    "default-src 'none'; style-src 'unsafe-inline'; img-src 'self'; media-src 'self'; frame-src 'self'; form-action 'self'",
+  );
+  return new Response(html, { ...init, headers });
+}
+
+export function wantsHtml(req: Request): boolean {
+  return req.headers.get("Accept")?.includes("text/html") ?? false;
+}
+
+export function readCookie(req: Request, name: string): string | null {
+  const header = req.headers.get("Cookie") ?? "";
+  for (const part of header.split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) {
+      return value.join("=");
+    }
+  }
+  return null;
+}
+
+// The web app's page, for routes it handles itself
+export async function appShell(): Promise<Response> {
+  const index = Bun.file(join(DIST_DIR, "index.html"));
+  if (await index.exists()) {
+    return new Response(index);
+  }
+  return new Response("Not Found", { status: 404 });
+}
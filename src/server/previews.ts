@@ -0,0 +1,167 @@
+import { join } from "node:path";
+import { blobKey } from "./blobs";
+import { config } from "./config";
+import { formatBytes } from "./format";
+import { highlight, languageFor } from "./highlight";
+import type { ManifestFile } from "./manifest";
+import { encodePath, escapeHtml, renderPage } from "./pages";
+import { storage } from "./storage";
+
+export const THUMBS_DIR = ".thumbs";
+const THUMB_SIZE = 320;
+const TEXT_PREVIEW_BYTES: number = 1024 * 1024;
+const DEFAULT_PREVIEW_SIZE_MB = 100;
+
+// Types a browser can show without running anything from the share; never
+// HTML or SVG, which would execute on this origin
+const INLINE_TYPES: Set<string> = new Set([
+  "application/pdf",
+  "audio/flac",
+  "audio/mp4",
+  "audio/mpeg",
+  "audio/ogg",
+  "audio/wav",
+  "audio/webm",
+  "image/avif",
+  "image/gif",
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "text/plain",
+  "video/mp4",
+  "video/ogg",
+  "video/webm",
+]);
+
+// What Bun.Image can decode
+const THUMBNAIL_TYPES: Set<string> = new Set([
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+]);
+
+export type PreviewKind = "image" | "video" | "audio" | "pdf" | "text";
+
+function mediaType(type: string): string {
+  return (type.split(";")[0] ?? "").trim().toLowerCase();
+}
+
+export function canInline(type: string): boolean {
+  return INLINE_TYPES.has(mediaType(type));
+}
+
+// Text is shown as escaped source whatever its type, so markup files are
+// safe there; everything else must be on the inline allowlist
+export function previewKind(file: ManifestFile): PreviewKind | null {
+  if (languageFor(file.name) !== null) {
+    return file.size <= TEXT_PREVIEW_BYTES ? "text" : null;
+  }
+  const type = mediaType(file.type);
+  const maxMb = config.preview_max_size_mb ?? DEFAULT_PREVIEW_SIZE_MB;
+  if (!INLINE_TYPES.has(type) || file.size > maxMb * 1024 * 1024) {
+    return null;
+  }
+  if (type === "application/pdf") {
+    return "pdf";
+  }
+  if (type === "text/plain") {
+    return file.size <= TEXT_PREVIEW_BYTES ? "text" : null;
+  }
+  const [major] = type.split("/");
+  return major === "image" || major === "video" || major === "audio"
+    ? major
+    : null;
+}
+
+export function hasThumbnail(file: ManifestFile): boolean {
+  return (
+    previewKind(file) === "image" && THUMBNAIL_TYPES.has(mediaType(file.type))
+  );
+}
+
+// Rendered once and kept next to the files, named by content hash
+export async function serveThumbnail(
+  shareDir: string,
+  file: ManifestFile,
+): Promise<Response> {
+  if (!hasThumbnail(file)) {
+    return new Response("Not Found", { status: 404 });
+  }
+  const thumbKey = join(shareDir, THUMBS_DIR, `${file.sha256}.webp`);
+  const headers = {
+    "Cache-Control": "private, max-age=86400",
+    "Content-Type": "image/webp",
+    "X-Content-Type-Options": "nosniff",
+  };
+
+  const cached = await storage().get(thumbKey);
+  if (cached) {
+    return new Response(cached, { headers });
+  }
+  try {
+    const original = await storage().get(blobKey(file.sha256));
+    if (!original) {
+      return new Response("Not Found", { status: 404 });
+    }
+    const thumb = await new Bun.Image(original)
+      .resize(THUMB_SIZE, THUMB_SIZE, {
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .webp({ quality: 75 })
+      .blob();
+    await storage().put(thumbKey, thumb);
+    return new Response(thumb, { headers });
+  } catch (err) {
+    console.error(`Failed to render thumbnail for ${file.name}:`, err);
+    return new Response("Not Found", { status: 404 });
+  }
+}
+
+// The file itself is embedded through ?inline, which only ever serves types
+// from the allowlist; text is read here and rendered as escaped source
+export async function previewPage(
+  base: string,
+  file: ManifestFile,
+): Promise<Response> {
+  const kind = previewKind(file);
+  if (!kind) {
+    return new Response("Not Found", { status: 404 });
+  }
+  const href = `${base}/${encodePath(file.name)}`;
+  const src = `${href}?inline`;
+  const title = escapeHtml(file.name);
+
+  let content: string;
+  switch (kind) {
+    case "image":
+      content = `<img src="${src}" alt="${title}">`;
+      break;
+    case "video":
+      content = `<video src="${src}" controls preload="metadata"></video>`;
+      break;
+    case "audio":
+      content = `<audio src="${src}" controls preload="metadata"></audio>`;
+      break;
+    case "pdf":
+      content = `<iframe src="${src}" title="${title}"></iframe>`;
+      break;
+    case "text": {
+      const data = await storage().get(blobKey(file.sha256));
+      const text = new TextDecoder().decode(data ?? new Uint8Array());
+      const language = languageFor(file.name) ?? "plain";
+      content = `<pre class="code">${highlight(text, language)}</pre>`;
+      break;
+    }
+  }
+
+  return renderPage(
+    file.name,
+    `<div class="preview">
+<p><a href="${base}">← Alle filer</a></p>
+<h1>${title}</h1>
+${content}
+<p><a class="button" href="${href}">Last ned</a> <span class="meta">${formatBytes(file.size)}</span></p>
+</div>`,
+  );
+}
@@ -0,0 +1,80 @@
+// Byte ranges and conditional requests (RFC 9110) for single-file downloads
+
+export interface ByteRange {
+  start: number;
+  // Inclusive, like in Content-Range
+  end: number;
+}
+
+export interface Validators {
+  etag: string;
+  lastModified: Date;
+}
+
+// Only a single range is supported; anything else is served in full,
+// which the spec allows. Returns "unsatisfiable" for a 416.
+export function parseRange(
+  header: string | null,
+  size: number,
+): ByteRange | "unsatisfiable" | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) {
+    return null;
+  }
+  const [, first = "", last = ""] = match;
+  if (first === "" && last === "") {
+    return null;
+  }
+
+  if (first === "") {
+    // Suffix range: the last N bytes
+    const length = Number(last);
+    if (length === 0 || size === 0) {
+      return "unsatisfiable";
+    }
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(first);
+  const end = last === "" ? size - 1 : Math.min(Number(last), size - 1);
+  if (start >= size) {
+    return "unsatisfiable";
+  }
+  return end < start ? null : { start, end };
+}
+
+function etagMatches(header: string, etag: string): boolean {
+  return header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
+}
+
+// Whether the client's cached copy is current, for a 304
+export function isNotModified(req: Request, validators: Validators): boolean {
+  const ifNoneMatch = req.headers.get("If-None-Match");
+  if (ifNoneMatch !== null) {
+    return etagMatches(ifNoneMatch, validators.etag);
+  }
+  const ifModifiedSince = Date.parse(
+    req.headers.get("If-Modified-Since") ?? "",
+  );
+  return (
+    !Number.isNaN(ifModifiedSince) &&
+    Math.floor(validators.lastModified.getTime() / 1000) <=
+      Math.floor(ifModifiedSince / 1000)
+  );
+}
+
+// A range is only honoured if If-Range, when sent, still names this file.
+// Dates count as a match only when equal, and ETags only when strong.
+export function rangeApplies(req: Request, validators: Validators): boolean {
+  const ifRange = req.headers.get("If-Range");
+  if (ifRange === null) {
+    return true;
+  }
+  if (ifRange.startsWith('"')) {
+    return ifRange === validators.etag;
+  }
+  return ifRange === validators.lastModified.toUTCString();
+}
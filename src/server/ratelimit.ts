@@ -0,0 +1,184 @@
+import { BlockList, isIP } from "node:net";
+import type { RateLimits } from "./config";
+import { config } from "./config";
+
+export type RouteClass = keyof RateLimits;
+
+const MINUTE_MS: number = 60 * 1000;
+const DAY_MS: number = 24 * 60 * MINUTE_MS;
+
+// Chunked uploads and seeking in a video both take many requests
+const DEFAULT_LIMITS: Required<RateLimits> = {
+  upload: 600,
+  download: 600,
+  quota: 30,
+  shares: 60,
+  admin: 60,
+  auth: 10,
+};
+const DEFAULT_LOCKOUT_ATTEMPTS = 10;
+const DEFAULT_LOCKOUT_MINUTES = 1;
+const MAX_LOCKOUT_MS: number = DAY_MS;
+// Failures are forgotten this long after the last one
+const FAILURE_MEMORY_MS: number = DAY_MS;
+
+// A token bucket per route class and IP: a full minute's worth of requests
+// may come in a burst, then they refill at the per-minute rate
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface Failures {
+  count: number;
+  lockouts: number;
+  lockedUntil: number;
+  lastAt: number;
+}
+
+const buckets: Map<string, TokenBucket> = new Map();
+const failures: Map<string, Failures> = new Map();
+
+let proxies: { source: string[] | undefined; list: BlockList } | null = null;
+
+function trustedProxies(): BlockList {
+  const source = config.trusted_proxies;
+  if (proxies && proxies.source === source) {
+    return proxies.list;
+  }
+  const list = new BlockList();
+  for (const entry of source ?? []) {
+    const [address = "", prefix] = entry.split("/");
+    const family = isIP(address);
+    if (family === 0 || (prefix !== undefined && !/^\d+$/.test(prefix))) {
+      console.error(`Ignoring invalid trusted proxy: ${entry}`);
+      continue;
+    }
+    const type = family === 6 ? "ipv6" : "ipv4";
+    if (prefix === undefined) {
+      list.addAddress(address, type);
+    } else {
+      list.addSubnet(address, Number(prefix), type);
+    }
+  }
+  proxies = { source, list };
+  return list;
+}
+
+// Dual-stack sockets report IPv4 clients as ::ffff:a.b.c.d
+function normalizeIp(address: string): string {
+  const mapped = address.toLowerCase().startsWith("::ffff:")
+    ? address.slice(7)
+    : address;
+  return isIP(mapped) === 4 ? mapped : address;
+}
+
+function isTrusted(address: string): boolean {
+  const family = isIP(address);
+  return (
+    family !== 0 &&
+    trustedProxies().check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+}
+
+// The peer address, unless it is a trusted proxy; then X-Forwarded-For is
+// read from the right and the first hop we don't trust is the client
+export function clientIp(req: Request, peer: string | undefined): string {
+  let ip = normalizeIp(peer ?? "unknown");
+  if (!isTrusted(ip)) {
+    return ip;
+  }
+  const forwarded = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => normalizeIp(hop.trim()))
+    .filter(Boolean);
+  if (forwarded.length === 0) {
+    return req.headers.get("x-real-ip")?.trim() || ip;
+  }
+  for (const hop of forwarded.reverse()) {
+    ip = hop;
+    if (!isTrusted(hop)) {
+      break;
+    }
+  }
+  return ip;
+}
+
+// Milliseconds until the client may try again, or 0 if it may go ahead
+export function rateLimit(routeClass: RouteClass, ip: string): number {
+  const limit = config.rate_limits?.[routeClass] ?? DEFAULT_LIMITS[routeClass];
+  if (limit <= 0) {
+    return 0;
+  }
+  const key = `${routeClass}:${ip}`;
+  const now = Date.now();
+  const bucket = buckets.get(key) ?? { tokens: limit, updatedAt: now };
+  bucket.tokens = Math.min(
+    limit,
+    bucket.tokens + ((now - bucket.updatedAt) * limit) / MINUTE_MS,
+  );
+  bucket.updatedAt = now;
+  buckets.set(key, bucket);
+  if (bucket.tokens >= 1) {
+    bucket.tokens -= 1;
+    return 0;
+  }
+  return Math.ceil(((1 - bucket.tokens) * MINUTE_MS) / limit);
+}
+
+// Milliseconds left of a lockout for this key, or 0
+export function lockedFor(key: string): number {
+  const entry = failures.get(key);
+  return entry ? Math.max(0, entry.lockedUntil - Date.now()) : 0;
+}
+
+// Every lockout_attempts failures lock the key out, each time twice as long
+export function recordFailure(key: string): void {
+  const now = Date.now();
+  let entry = failures.get(key);
+  if (!entry || now - entry.lastAt > FAILURE_MEMORY_MS) {
+    entry = { count: 0, lockouts: 0, lockedUntil: 0, lastAt: now };
+    failures.set(key, entry);
+  }
+  entry.count += 1;
+  entry.lastAt = now;
+  if (entry.count % (config.lockout_attempts ?? DEFAULT_LOCKOUT_ATTEMPTS)) {
+    return;
+  }
+  const baseMs =
+    (config.lockout_minutes ?? DEFAULT_LOCKOUT_MINUTES) * MINUTE_MS;
+  entry.lockedUntil =
+    now + Math.min(baseMs * 2 ** entry.lockouts, MAX_LOCKOUT_MS);
+  entry.lockouts += 1;
+  console.log(`Locked out ${key} after ${String(entry.count)} failures`);
+}
+
+export function clearFailures(key: string): void {
+  failures.delete(key);
+}
+
+export function tooManyRequests(retryAfterMs: number): Response {
+  return new Response("Too many requests", {
+    status: 429,
+    headers: retryAfter(retryAfterMs),
+  });
+}
+
+export function retryAfter(ms: number): Record<string, string> {
+  return { "Retry-After": String(Math.max(1, Math.ceil(ms / 1000))) };
+}
+
+// Drops full buckets and failures nobody remembers any more
+export function evictStale(): void {
+  const now = Date.now();
+  for (const [key, bucket] of buckets) {
+    if (now - bucket.updatedAt > MINUTE_MS) {
+      buckets.delete(key);
+    }
+  }
+  for (const [key, entry] of failures) {
+    if (now > entry.lockedUntil && now - entry.lastAt > FAILURE_MEMORY_MS) {
+      failures.delete(key);
+    }
+  }
+}
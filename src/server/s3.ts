@@ -0,0 +1,134 @@
+import { S3Client } from "bun";
+import type { StorageConfig } from "./config";
+import type {
+  Storage,
+  StorageData,
+  StorageEntry,
+  StorageStat,
+} from "./storage";
+
+// Multipart parts for streamed writes; S3 wants at least 5 MiB
+const PART_SIZE: number = 8 * 1024 * 1024;
+
+// Works with AWS and with S3-compatible servers such as MinIO or Garage.
+// Objects only appear once fully written, which gives put its atomicity.
+export function s3Storage(options: StorageConfig): Storage {
+  const client = new S3Client({
+    ...(options.bucket ? { bucket: options.bucket } : {}),
+    ...(options.endpoint ? { endpoint: options.endpoint } : {}),
+    ...(options.region ? { region: options.region } : {}),
+    ...(options.access_key_id ? { accessKeyId: options.access_key_id } : {}),
+    ...(options.secret_access_key
+      ? { secretAccessKey: options.secret_access_key }
+      : {}),
+  });
+  const root = options.prefix ? `${options.prefix.replace(/\/+$/, "")}/` : "";
+  const keyOf = (key: string): string => root + key;
+
+  // Every page of a listing under a prefix
+  async function* listAll(
+    prefix: string,
+    delimiter?: string,
+  ): AsyncGenerator<{ keys: StorageEntry[]; folders: string[] }> {
+    let continuationToken: string | undefined;
+    do {
+      const page = await client.list({
+        prefix,
+        ...(delimiter ? { delimiter } : {}),
+        ...(continuationToken ? { continuationToken } : {}),
+      });
+      yield {
+        keys: (page.contents ?? []).map((object) => ({
+          name: object.key.slice(prefix.length),
+          size: object.size ?? 0,
+          modified: object.lastModified ? Date.parse(object.lastModified) : 0,
+          folder: false,
+        })),
+        folders: (page.commonPrefixes ?? []).map((p) =>
+          p.prefix.slice(prefix.length).replace(/\/$/, ""),
+        ),
+      };
+      continuationToken = page.isTruncated
+        ? page.nextContinuationToken
+        : undefined;
+    } while (continuationToken);
+  }
+
+  return {
+    async put(key: string, data: StorageData): Promise<number> {
+      const file = client.file(keyOf(key));
+      if (typeof data === "object" && Symbol.asyncIterator in data) {
+        const writer = file.writer({ partSize: PART_SIZE });
+        let written = 0;
+        try {
+          for await (const chunk of data) {
+            await writer.write(chunk);
+            written += chunk.byteLength;
+          }
+          await writer.end();
+        } catch (err) {
+          // Ending with an error aborts the multipart upload, so neither a
+          // partial object nor its parts are left behind
+          await Promise.resolve(
+            writer.end(err instanceof Error ? err : new Error(String(err))),
+          ).catch(() => {
+            // Already failed
+          });
+          throw err;
+        }
+        return written;
+      }
+      return await file.write(data);
+    },
+
+    async get(key: string): Promise<Uint8Array<ArrayBuffer> | null> {
+      const file = client.file(keyOf(key));
+      return (await file.exists()) ? await file.bytes() : null;
+    },
+
+    stream(
+      key: string,
+      range?: { start: number; end: number },
+    ): ReadableStream<Uint8Array> {
+      const file = client.file(keyOf(key));
+      return range
+        ? file.slice(range.start, range.end + 1).stream()
+        : file.stream();
+    },
+
+    async list(prefix: string): Promise<StorageEntry[]> {
+      const entries: StorageEntry[] = [];
+      for await (const page of listAll(`${keyOf(prefix)}/`, "/")) {
+        entries.push(...page.keys);
+        for (const name of page.folders) {
+          entries.push({ name, size: 0, modified: 0, folder: true });
+        }
+      }
+      return entries;
+    },
+
+    // S3 has no rename; copied, then the original removed
+    async move(from: string, to: string): Promise<void> {
+      await client.write(keyOf(to), client.file(keyOf(from)));
+      await client.delete(keyOf(from));
+    },
+
+    async delete(key: string): Promise<void> {
+      await client.delete(keyOf(key));
+      for await (const page of listAll(`${keyOf(key)}/`)) {
+        for (const { name } of page.keys) {
+          await client.delete(`${keyOf(key)}/${name}`);
+        }
+      }
+    },
+
+    async stat(key: string): Promise<StorageStat | null> {
+      try {
+        const info = await client.file(keyOf(key)).stat();
+        return { size: info.size, modified: info.lastModified.getTime() };
+      } catch {
+        return null;
+      }
+    },
+  };
+}
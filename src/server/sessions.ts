@@ -0,0 +1,182 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { nanoid } from "nanoid";
+import { config } from "./config";
+import { readCookie } from "./pages";
+
+// Web UI logins. The password is checked once and the browser gets an
+// HttpOnly cookie instead, so scripts on the page never see a credential.
+// Sessions are kept in data_dir, under a hash of their id, so a restart
+// doesn't log everyone out.
+
+const STORE_NAME = "sessions.json";
+const COOKIE_NAME = "gp_session";
+// Only the API needs the cookie
+const COOKIE_PATH = "/api";
+const DEFAULT_TTL_HOURS = 168;
+const HOUR_MS: number = 60 * 60 * 1000;
+const SAFE_METHODS: Set<string> = new Set(["GET", "HEAD", "OPTIONS"]);
+
+export interface Session {
+  // The [[users]] name, or null for an admin-only login
+  user: string | null;
+  // Salted digests of the secrets logged in with, so changing one in the
+  // config ends its sessions
+  userSecret: string | null;
+  adminSecret: string | null;
+  csrfToken: string;
+  expiresAt: number;
+}
+
+let store: { path: string; sessions: Map<string, Session> } | null = null;
+
+function storePath(): string {
+  return join(config.data_dir, STORE_NAME);
+}
+
+// Reloaded when data_dir changes in the config
+function loadStore(): Map<string, Session> {
+  const path = storePath();
+  if (store?.path === path) {
+    return store.sessions;
+  }
+  let sessions: Map<string, Session>;
+  try {
+    const content = readFileSync(path, "utf-8");
+    sessions = new Map(
+      Object.entries(JSON.parse(content) as Record<string, Session>),
+    );
+  } catch {
+    sessions = new Map();
+  }
+  store = { path, sessions };
+  return sessions;
+}
+
+// Expired sessions are dropped whenever the file is written
+function saveStore(sessions: Map<string, Session>): void {
+  const now = Date.now();
+  for (const [key, session] of sessions) {
+    if (now > session.expiresAt) {
+      sessions.delete(key);
+    }
+  }
+  mkdirSync(config.data_dir, { recursive: true });
+  const tmpPath = `${storePath()}.${nanoid(6)}`;
+  writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(sessions)), {
+    mode: 0o600,
+  });
+  renameSync(tmpPath, storePath());
+}
+
+function digest(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function sessionTtlMs(): number {
+  return (config.session_ttl_hours ?? DEFAULT_TTL_HOURS) * HOUR_MS;
+}
+
+// A secret may be in the config in plaintext, so the session file only gets
+// it keyed with a salt of its own, stored alongside as "salt:digest"
+function sealSecret(secret: string, salt: string = nanoid(16)): string {
+  const sealed = createHmac("sha256", salt).update(secret).digest("hex");
+  return `${salt}:${sealed}`;
+}
+
+// Whether a session was made with this secret, as it is in the config now
+export function sessionHolds(
+  recorded: string | null,
+  secret: string | undefined,
+): boolean {
+  const salt = recorded?.split(":")[0];
+  return (
+    recorded !== null &&
+    secret !== undefined &&
+    salt !== undefined &&
+    safeEqual(recorded, sealSecret(secret, salt))
+  );
+}
+
+export function sessionFor(req: Request): Session | null {
+  const id = readCookie(req, COOKIE_NAME);
+  if (!id) {
+    return null;
+  }
+  const session = loadStore().get(digest(id));
+  return session && Date.now() <= session.expiresAt ? session : null;
+}
+
+// Returns the cookie value to hand out, and the session it stands for
+export function createSession(login: {
+  user: string | null;
+  userSecret: string | null;
+  adminSecret: string | null;
+}): { id: string; session: Session } {
+  const sessions = loadStore();
+  const id = nanoid(32);
+  const session: Session = {
+    user: login.user,
+    userSecret: login.userSecret === null ? null : sealSecret(login.userSecret),
+    adminSecret:
+      login.adminSecret === null ? null : sealSecret(login.adminSecret),
+    csrfToken: nanoid(32),
+    expiresAt: Date.now() + sessionTtlMs(),
+  };
+  sessions.set(digest(id), session);
+  saveStore(sessions);
+  return { id, session };
+}
+
+export function endSession(req: Request): void {
+  const id = readCookie(req, COOKIE_NAME);
+  const sessions = loadStore();
+  if (id && sessions.delete(digest(id))) {
+    saveStore(sessions);
+  }
+}
+
+// Secure whenever the browser got here over HTTPS, directly or through a
+// proxy; on plain HTTP the browser would drop such a cookie
+export function sessionCookie(req: Request, id: string | null): string {
+  const url = new URL(req.url);
+  const secure =
+    url.protocol === "https:" ||
+    req.headers.get("X-Forwarded-Proto") === "https";
+  const maxAge = id === null ? 0 : Math.floor(sessionTtlMs() / 1000);
+  return `${COOKIE_NAME}=${id ?? ""}; Path=${COOKIE_PATH}; Max-Age=${String(maxAge)}; HttpOnly; SameSite=Strict${secure ? "; Secure" : ""}`;
+}
+
+// Whether the request brings its own password or token, rather than
+// leaning on the cookie. An empty X-Password or another kind of
+// Authorization is ignored and the cookie used instead.
+export function hasCredentialHeader(req: Request): boolean {
+  return Boolean(
+    req.headers.get("X-Password") ||
+      req.headers.get("Authorization")?.startsWith("Bearer "),
+  );
+}
+
+// Browsers attach cookies to requests other sites make, so anything that
+// changes state on the strength of the session cookie alone also has to
+// carry the session's CSRF token, which only our own page can read.
+export function checkCsrf(req: Request): Response | null {
+  if (SAFE_METHODS.has(req.method) || hasCredentialHeader(req)) {
+    return null;
+  }
+  const session = sessionFor(req);
+  if (!session) {
+    return null;
+  }
+  const given = req.headers.get("X-CSRF-Token") ?? "";
+  return safeEqual(given, session.csrfToken)
+    ? null
+    : new Response("Missing or wrong CSRF token", { status: 403 });
+}
@@ -0,0 +1,201 @@
+import { join } from "node:path";
+import { releaseBlobs } from "./blobs";
+import type { Account } from "./buckets";
+import { parseExpiryHours } from "./buckets";
+import { isSafeId } from "./filenames";
+import type { ShareManifest } from "./manifest";
+import { readManifest, withShareLock, writeManifest } from "./manifest";
+import { THUMBS_DIR } from "./previews";
+import { storage, uploadsDir } from "./storage";
+import { addUsage, releaseShare } from "./usage";
+
+export interface ShareSummary {
+  id: string;
+  url: string;
+  createdAt: number;
+  expiresAt: number;
+  size: number;
+  fileCount: number;
+  downloads: number;
+  maxDownloads: number | null;
+  protected: boolean;
+  // The link here has no key, so only the uploader's copy opens it
+  encrypted: boolean;
+  // Sent in by an outsider through a file request
+  fromRequest: boolean;
+}
+
+function summarize(shareId: string, manifest: ShareManifest): ShareSummary {
+  return {
+    id: shareId,
+    url: `/d/${manifest.bucket}/${shareId}`,
+    createdAt: manifest.createdAt,
+    expiresAt: manifest.expiresAt,
+    size: manifest.files.reduce((sum, f) => sum + f.size, 0),
+    fileCount: manifest.files.length,
+    downloads: manifest.downloads,
+    maxDownloads: manifest.maxDownloads,
+    protected: manifest.passphraseHash !== undefined,
+    encrypted: manifest.encryptedMeta !== undefined,
+    fromRequest: manifest.requestId !== undefined,
+  };
+}
+
+async function findShare(
+  bucket: string,
+  shareId: string,
+): Promise<{ shareDir: string; manifest: ShareManifest } | null> {
+  if (!(isSafeId(bucket) && isSafeId(shareId))) {
+    return null;
+  }
+  const shareDir = join(uploadsDir(), bucket, shareId);
+  const manifest = await readManifest(shareDir);
+  return manifest ? { shareDir, manifest } : null;
+}
+
+// Newest first, including expired shares the hourly cleanup hasn't reached
+export async function listShares(bucket: string): Promise<ShareSummary[]> {
+  const shares: ShareSummary[] = [];
+  const entries = await storage().list(join(uploadsDir(), bucket));
+  for (const { name: shareId } of entries) {
+    const share = await findShare(bucket, shareId);
+    if (share) {
+      shares.push(summarize(shareId, share.manifest));
+    }
+  }
+  shares.sort((a, b) => b.createdAt - a.createdAt);
+  return shares;
+}
+
+export async function deleteShare(
+  bucket: string,
+  shareId: string,
+): Promise<boolean> {
+  const share = await findShare(bucket, shareId);
+  if (!share) {
+    return false;
+  }
+  // Under the lock, so a download finishing the share can't free it twice
+  const deleted = await withShareLock(share.shareDir, async () => {
+    const manifest = await readManifest(share.shareDir);
+    if (!manifest) {
+      return false;
+    }
+    await storage().delete(share.shareDir);
+    await releaseShare(manifest);
+    return true;
+  });
+  if (deleted) {
+    console.log(`Deleted share on request: ${bucket}/${shareId}`);
+  }
+  return deleted;
+}
+
+export async function handleListShares(account: Account): Promise<Response> {
+  const now = Date.now();
+  const shares = await listShares(account.bucket);
+  return Response.json(shares.filter((s) => now <= s.expiresAt));
+}
+
+export async function handleDeleteShare(
+  account: Account,
+  shareId: string,
+): Promise<Response> {
+  if (!(await deleteShare(account.bucket, shareId))) {
+    return new Response("Not Found", { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+}
+
+// The summary with the files in it, for editing the share
+export async function handleGetShare(
+  account: Account,
+  shareId: string,
+): Promise<Response> {
+  const share = await findShare(account.bucket, shareId);
+  if (!share) {
+    return new Response("Not Found", { status: 404 });
+  }
+  return Response.json({
+    ...summarize(shareId, share.manifest),
+    files: share.manifest.files.map(({ name, size, sha256 }) => ({
+      name,
+      size,
+      sha256,
+    })),
+  });
+}
+
+// Takes one file out of a share, giving its bytes back to the bucket. The
+// link stays the same; taking out the last file is deleting the share.
+export async function handleRemoveFile(
+  account: Account,
+  shareId: string,
+  name: string,
+): Promise<Response> {
+  const shareDir = join(uploadsDir(), account.bucket, shareId);
+  return await withShareLock(shareDir, async () => {
+    const share = await findShare(account.bucket, shareId);
+    const file = share?.manifest.files.find((f) => f.name === name);
+    if (!(share && file)) {
+      return new Response("Not Found", { status: 404 });
+    }
+    const { manifest } = share;
+    if (manifest.encryptedMeta !== undefined) {
+      return new Response("Encrypted shares can't be changed", {
+        status: 409,
+      });
+    }
+    if (manifest.files.length === 1) {
+      return new Response("Can't remove the last file", { status: 409 });
+    }
+
+    manifest.files = manifest.files.filter((f) => f !== file);
+    await writeManifest(shareDir, manifest);
+    addUsage(manifest.bucket, -file.size);
+    await releaseBlobs([file]);
+    // Thumbnails are kept by content, which another file may still have
+    if (!manifest.files.some((f) => f.sha256 === file.sha256)) {
+      await storage().delete(join(shareDir, THUMBS_DIR, `${file.sha256}.webp`));
+    }
+    console.log(`Removed ${name} from share ${account.bucket}/${shareId}`);
+    return Response.json(summarize(shareId, manifest));
+  });
+}
+
+// Sets a new lifetime counted from now, within the account's maximum
+export async function handleExtendShare(
+  req: Request,
+  account: Account,
+  shareId: string,
+): Promise<Response> {
+  let body: { expiryHours?: unknown };
+  try {
+    body = (await req.json()) as { expiryHours?: unknown };
+  } catch {
+    return new Response("Invalid JSON", { status: 400 });
+  }
+  const ttlMs =
+    body.expiryHours === undefined
+      ? null
+      : parseExpiryHours(body.expiryHours, account);
+  if (ttlMs === null) {
+    return new Response("Invalid expiry", { status: 400 });
+  }
+
+  const summary = await withShareLock(
+    join(uploadsDir(), account.bucket, shareId),
+    async () => {
+      const share = await findShare(account.bucket, shareId);
+      if (!share) {
+        return null;
+      }
+      share.manifest.expiresAt = Date.now() + ttlMs;
+      await writeManifest(share.shareDir, share.manifest);
+      return summarize(shareId, share.manifest);
+    },
+  );
+  return summary
+    ? Response.json(summary)
+    : new Response("Not Found", { status: 404 });
+}
@@ -1,58 +1,55 @@
-import { readFileSync } from "node:fs";
-import { readdir, stat } from "node:fs/promises";
 import { join } from "node:path";
 import process from "node:process";
-import { parse } from "toml";
-
-const configPath: string = process.env["CONFIG_PATH"] ?? "./config.toml";
-const config = parse(readFileSync(configPath, "utf-8")) as { data_dir: string };
-
-async function getDirSize(dirPath: string): Promise<number> {
-  let total = 0;
-  try {
-    const entries = await readdir(dirPath, { withFileTypes: true });
-    for (const entry of entries) {
-      const fullPath = join(dirPath, entry.name);
-      if (entry.isDirectory()) {
-        total += await getDirSize(fullPath);
-      } else {
-        const s = await stat(fullPath);
-        total += s.size;
-      }
-    }
-  } catch {
-    // Directory doesn't exist
-  }
-  return total;
-}
-
-function formatBytes(bytes: number): string {
-  if (bytes < 1024) return `${String(bytes)}B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
-  if (bytes < 1024 * 1024 * 1024)
-    return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
-  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)}GB`;
-}
-
-const uploadsDir = join(config.data_dir, "uploads");
+import { blobBytes } from "./blobs";
+import { formatBytes } from "./format";
+import { readManifest } from "./manifest";
+import { storage, uploadsDir } from "./storage";
+import { shareBytes } from "./usage";
 
 let shares = 0;
 let buckets = 0;
+let downloads = 0;
+let expired = 0;
+let unmigrated = 0;
+
+let totalSize = 0;
+let diskSize = 0;
 
 try {
-  const bucketDirs = await readdir(uploadsDir);
+  const now = Date.now();
+  const bucketDirs = await storage().list(uploadsDir());
   buckets = bucketDirs.length;
-  for (const bucket of bucketDirs) {
-    const entries = await readdir(join(uploadsDir, bucket));
+  for (const { name: bucket } of bucketDirs) {
+    const entries = await storage().list(join(uploadsDir(), bucket));
     shares += entries.length;
+    for (const { name: shareId } of entries) {
+      const manifest = await readManifest(join(uploadsDir(), bucket, shareId));
+      if (!manifest) {
+        unmigrated += 1;
+        continue;
+      }
+      totalSize += shareBytes(manifest);
+      downloads += manifest.downloads;
+      if (now > manifest.expiresAt) {
+        expired += 1;
+      }
+    }
   }
+  // Identical files are stored once, so this can be less than totalSize
+  diskSize = await blobBytes();
 } catch {
   // No uploads yet
 }
 
-const totalSize: number = await getDirSize(uploadsDir);
+const details: string[] = [`${String(downloads)} downloads`];
+if (expired > 0) {
+  details.push(`${String(expired)} expired`);
+}
+if (unmigrated > 0) {
+  details.push(`${String(unmigrated)} without manifest`);
+}
 
 console.log(
-  `shares: ${String(shares)} across ${String(buckets)} bucket${buckets === 1 ? "" : "s"}, ${formatBytes(totalSize)} on disk`,
+  `shares: ${String(shares)} across ${String(buckets)} bucket${buckets === 1 ? "" : "s"}, ${formatBytes(totalSize)} stored in ${formatBytes(diskSize)} (${details.join(", ")})`,
 );
 process.exit(0);
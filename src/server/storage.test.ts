@@ -0,0 +1,230 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync } from "node:fs";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import process from "node:process";
+import { nanoid } from "nanoid";
+import { s3Storage } from "./s3";
+import type { Storage } from "./storage";
+import { diskStorage } from "./storage";
+
+// The same behaviour is expected of every driver. The S3 run needs a
+// server to talk to, such as a local MinIO:
+//
+//   S3_TEST_ENDPOINT=http://localhost:9000 S3_TEST_BUCKET=gravplass \
+//   S3_ACCESS_KEY_ID=... S3_SECRET_ACCESS_KEY=... pnpm test
+//
+// Each run works under a fresh prefix and removes it afterwards.
+
+const S3_ENDPOINT: string | undefined = process.env["S3_TEST_ENDPOINT"];
+const S3_BUCKET: string | undefined = process.env["S3_TEST_BUCKET"];
+
+// Everything the tests write is under these, for cleaning up afterwards
+const TOP_LEVEL: string[] = [
+  "a",
+  "range.txt",
+  "stat",
+  "list",
+  "replace",
+  "atomic",
+  "move",
+  "delete",
+];
+
+async function text(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return await new Response(stream).text();
+}
+
+async function* chunks(...parts: string[]): AsyncGenerator<Uint8Array> {
+  for (const part of parts) {
+    yield new TextEncoder().encode(part);
+  }
+}
+
+// Fails after the first chunk, like a client that disconnects mid-upload
+async function* brokenChunks(): AsyncGenerator<Uint8Array> {
+  yield new TextEncoder().encode("partial");
+  throw new Error("connection lost");
+}
+
+// Fails once more than one S3 part has been sent
+async function* brokenLargeChunks(): AsyncGenerator<Uint8Array> {
+  const chunk = new Uint8Array(4 * 1024 * 1024);
+  for (let i = 0; i < 5; i++) {
+    yield chunk;
+  }
+  throw new Error("connection lost");
+}
+
+function storageContract(
+  name: string,
+  open: () => { storage: Storage; close: () => Promise<void> },
+  skip: boolean,
+): void {
+  describe.skipIf(skip)(`${name} storage`, () => {
+    let storage: Storage;
+    let close: () => Promise<void>;
+
+    beforeAll(() => {
+      ({ storage, close } = open());
+    });
+
+    afterAll(async () => {
+      await close();
+    });
+
+    test("puts and gets strings, bytes, blobs and streams", async () => {
+      expect(await storage.put("a/string.txt", "hello")).toBe(5);
+      expect(await storage.put("a/bytes.bin", new Uint8Array([1, 2, 3]))).toBe(
+        3,
+      );
+      expect(await storage.put("a/blob.txt", new Blob(["blob"]))).toBe(4);
+      expect(await storage.put("a/stream.txt", chunks("str", "eam"))).toBe(6);
+
+      const stored = await storage.get("a/string.txt");
+      expect(stored && new TextDecoder().decode(stored)).toBe("hello");
+      expect([...((await storage.get("a/bytes.bin")) ?? [])]).toEqual([
+        1, 2, 3,
+      ]);
+      expect(await text(storage.stream("a/blob.txt"))).toBe("blob");
+      expect(await text(storage.stream("a/stream.txt"))).toBe("stream");
+    });
+
+    test("gives null for what isn't there", async () => {
+      expect(await storage.get("missing/file")).toBeNull();
+      expect(await storage.stat("missing/file")).toBeNull();
+      expect(await storage.list("missing")).toEqual([]);
+    });
+
+    test("streams a byte range", async () => {
+      await storage.put("range.txt", "0123456789");
+      expect(
+        await text(storage.stream("range.txt", { start: 2, end: 5 })),
+      ).toBe("2345");
+      expect(
+        await text(storage.stream("range.txt", { start: 9, end: 9 })),
+      ).toBe("9");
+    });
+
+    test("stats files but not folders", async () => {
+      const before = Date.now();
+      await storage.put("stat/file.txt", "12345");
+      const info = await storage.stat("stat/file.txt");
+      expect(info?.size).toBe(5);
+      // Allow for clock skew between here and the server
+      expect(info?.modified).toBeGreaterThan(before - 60_000);
+      expect(await storage.stat("stat")).toBeNull();
+    });
+
+    test("lists files and folders directly under a prefix", async () => {
+      await storage.put("list/one.txt", "1");
+      await storage.put("list/two.txt", "22");
+      await storage.put("list/sub/deep.txt", "333");
+      const entries = await storage.list("list");
+      const byName = Object.fromEntries(entries.map((e) => [e.name, e]));
+      expect(Object.keys(byName).sort()).toEqual(["one.txt", "sub", "two.txt"]);
+      expect(byName["two.txt"]).toMatchObject({ size: 2, folder: false });
+      expect(byName["sub"]).toMatchObject({ folder: true });
+      expect((await storage.list("list/sub")).map((e) => e.name)).toEqual([
+        "deep.txt",
+      ]);
+    });
+
+    test("replaces an object with put", async () => {
+      await storage.put("replace/.manifest.json", '{"version":1}');
+      await storage.put("replace/.manifest.json", '{"version":2}');
+      expect(await text(storage.stream("replace/.manifest.json"))).toBe(
+        '{"version":2}',
+      );
+    });
+
+    test("keeps the old object when a put fails halfway", async () => {
+      await storage.put("atomic/.manifest.json", '{"version":3}');
+      await expect(
+        storage.put("atomic/.manifest.json", brokenChunks()),
+      ).rejects.toThrow("connection lost");
+      expect(await text(storage.stream("atomic/.manifest.json"))).toBe(
+        '{"version":3}',
+      );
+      expect((await storage.list("atomic")).map((e) => e.name)).toEqual([
+        ".manifest.json",
+      ]);
+    });
+
+    test("never shows a new object before it is complete", async () => {
+      await expect(
+        storage.put("atomic/new.txt", brokenChunks()),
+      ).rejects.toThrow("connection lost");
+      expect(await storage.stat("atomic/new.txt")).toBeNull();
+    });
+
+    test("leaves nothing behind when a large put fails", async () => {
+      await storage.put("atomic/large.bin", "old");
+      await expect(
+        storage.put("atomic/large.bin", brokenLargeChunks()),
+      ).rejects.toThrow("connection lost");
+      expect(await text(storage.stream("atomic/large.bin"))).toBe("old");
+      await expect(
+        storage.put("atomic/large-new.bin", brokenLargeChunks()),
+      ).rejects.toThrow("connection lost");
+      expect(await storage.stat("atomic/large-new.bin")).toBeNull();
+    });
+
+    test("moves an object", async () => {
+      await storage.put("move/from.txt", "moved");
+      await storage.move("move/from.txt", "move/to/there.txt");
+      expect(await storage.stat("move/from.txt")).toBeNull();
+      expect(await text(storage.stream("move/to/there.txt"))).toBe("moved");
+    });
+
+    test("deletes an object or everything under a prefix", async () => {
+      await storage.put("delete/keep.txt", "k");
+      await storage.put("delete/gone.txt", "g");
+      await storage.put("delete/dir/a.txt", "a");
+      await storage.put("delete/dir/sub/b.txt", "b");
+      await storage.delete("delete/gone.txt");
+      await storage.delete("delete/dir");
+      expect((await storage.list("delete")).map((e) => e.name)).toEqual([
+        "keep.txt",
+      ]);
+      // Deleting what isn't there is fine
+      await storage.delete("delete/nothing");
+    });
+  });
+}
+
+storageContract(
+  "local",
+  () => {
+    const root = mkdtempSync(join(tmpdir(), "gravplass-test-"));
+    return {
+      storage: diskStorage(root),
+      close: async (): Promise<void> => {
+        await rm(root, { recursive: true, force: true });
+      },
+    };
+  },
+  false,
+);
+
+storageContract(
+  "S3",
+  () => {
+    const storage = s3Storage({
+      driver: "s3",
+      ...(S3_ENDPOINT ? { endpoint: S3_ENDPOINT } : {}),
+      ...(S3_BUCKET ? { bucket: S3_BUCKET } : {}),
+      prefix: `gravplass-test-${nanoid(8)}`,
+    });
+    return {
+      storage,
+      close: async (): Promise<void> => {
+        for (const name of TOP_LEVEL) {
+          await storage.delete(name);
+        }
+      },
+    };
+  },
+  !(S3_ENDPOINT && S3_BUCKET),
+);
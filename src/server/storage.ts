@@ -0,0 +1,211 @@
+import { mkdir, readdir, rename, rm, rmdir, stat } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { nanoid } from "nanoid";
+import type { StorageConfig } from "./config";
+import { config } from "./config";
+import { s3Storage } from "./s3";
+
+// Shares and uploads in progress live behind this interface, addressed by
+// "/"-separated keys such as uploads/<bucket>/<share>/<file>. Folders are
+// only key prefixes, so a driver never needs to create one.
+
+export type StorageData =
+  | string
+  | Uint8Array
+  | Blob
+  | AsyncIterable<Uint8Array>;
+
+export interface StorageEntry {
+  name: string;
+  // Files only; folders have 0
+  size: number;
+  modified: number;
+  folder: boolean;
+}
+
+export interface StorageStat {
+  size: number;
+  modified: number;
+}
+
+export interface Storage {
+  // Replaces the whole object; readers never see a partial one. Resolves
+  // with the bytes written.
+  put: (key: string, data: StorageData) => Promise<number>;
+  get: (key: string) => Promise<Uint8Array<ArrayBuffer> | null>;
+  // Bytes start to end, inclusive, or the whole object
+  stream: (
+    key: string,
+    range?: { start: number; end: number },
+  ) => ReadableStream<Uint8Array>;
+  // Files and folders directly under a prefix, like readdir
+  list: (prefix: string) => Promise<StorageEntry[]>;
+  // Replaces the target, like put
+  move: (from: string, to: string) => Promise<void>;
+  // The object and everything under it as a prefix
+  delete: (key: string) => Promise<void>;
+  stat: (key: string) => Promise<StorageStat | null>;
+}
+
+export function diskStorage(root: string): Storage {
+  const pathOf = (key: string): string => join(root, key);
+
+  // Drops the folder a file was in once it is empty, so a bucket with no
+  // shares left disappears too
+  async function pruneParent(path: string): Promise<void> {
+    const parent = dirname(path);
+    if (parent !== root) {
+      await rmdir(parent).catch(() => {
+        // Not empty, or already gone
+      });
+    }
+  }
+
+  return {
+    async put(key: string, data: StorageData): Promise<number> {
+      const path = pathOf(key);
+      await mkdir(dirname(path), { recursive: true });
+      // Written under a temporary name so a crash never leaves half a file
+      const tmpPath = `${path}.${nanoid(6)}`;
+      try {
+        let written = 0;
+        if (typeof data === "object" && Symbol.asyncIterator in data) {
+          const writer = Bun.file(tmpPath).writer();
+          for await (const chunk of data) {
+            writer.write(chunk);
+            await writer.flush();
+            written += chunk.byteLength;
+          }
+          await writer.end();
+        } else {
+          written = await Bun.write(tmpPath, data);
+        }
+        await rename(tmpPath, path);
+        return written;
+      } catch (err) {
+        await rm(tmpPath, { force: true });
+        throw err;
+      }
+    },
+
+    async get(key: string): Promise<Uint8Array<ArrayBuffer> | null> {
+      const file = Bun.file(pathOf(key));
+      return (await file.exists()) ? await file.bytes() : null;
+    },
+
+    stream(
+      key: string,
+      range?: { start: number; end: number },
+    ): ReadableStream<Uint8Array> {
+      const file = Bun.file(pathOf(key));
+      return range
+        ? file.slice(range.start, range.end + 1).stream()
+        : file.stream();
+    },
+
+    async list(prefix: string): Promise<StorageEntry[]> {
+      let dirents: { name: string; isDirectory: () => boolean }[];
+      try {
+        dirents = await readdir(pathOf(prefix), { withFileTypes: true });
+      } catch {
+        return [];
+      }
+      const entries: StorageEntry[] = [];
+      for (const dirent of dirents) {
+        const folder = dirent.isDirectory();
+        const info = folder
+          ? null
+          : await stat(join(pathOf(prefix), dirent.name));
+        entries.push({
+          name: dirent.name,
+          size: info?.size ?? 0,
+          modified: info?.mtimeMs ?? 0,
+          folder,
+        });
+      }
+      return entries;
+    },
+
+    async move(from: string, to: string): Promise<void> {
+      await mkdir(dirname(pathOf(to)), { recursive: true });
+      await rename(pathOf(from), pathOf(to));
+      await pruneParent(pathOf(from));
+    },
+
+    async delete(key: string): Promise<void> {
+      const path = pathOf(key);
+      await rm(path, { recursive: true, force: true });
+      await pruneParent(path);
+    },
+
+    async stat(key: string): Promise<StorageStat | null> {
+      try {
+        const info = await stat(pathOf(key));
+        return info.isFile()
+          ? { size: info.size, modified: info.mtimeMs }
+          : null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+// Storage prefixes for finished shares and for uploads in progress
+export function uploadsDir(): string {
+  return "uploads";
+}
+
+export function partialDir(): string {
+  return "partial";
+}
+
+const locks: Map<string, Promise<unknown>> = new Map();
+
+// Runs read-modify-write steps on one key one at a time
+export async function withKeyLock<T>(
+  key: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const previous = locks.get(key) ?? Promise.resolve();
+  const result = previous.then(fn, fn);
+  const settled = result.catch(() => {});
+  locks.set(key, settled);
+  try {
+    return await result;
+  } finally {
+    if (locks.get(key) === settled) {
+      locks.delete(key);
+    }
+  }
+}
+
+let current: {
+  source: StorageConfig | undefined;
+  dataDir: string;
+  storage: Storage;
+} | null = null;
+
+// Picked from [storage] in the config, local disk under data_dir by default
+export function storage(): Storage {
+  const source = config.storage;
+  if (
+    current &&
+    current.source === source &&
+    current.dataDir === config.data_dir
+  ) {
+    return current.storage;
+  }
+  const driver = source?.driver ?? "local";
+  let selected: Storage;
+  if (driver === "s3" && source) {
+    selected = s3Storage(source);
+  } else {
+    if (driver !== "local") {
+      console.error(`Unknown storage driver ${driver}, using local disk`);
+    }
+    selected = diskStorage(config.data_dir);
+  }
+  current = { source, dataDir: config.data_dir, storage: selected };
+  return selected;
+}
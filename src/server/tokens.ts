@@ -0,0 +1,221 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { nanoid } from "nanoid";
+import { config } from "./config";
+
+// Named API tokens, so scripts and CI machines can get by without a user's
+// password. Only a hash of each token is kept, in data_dir next to
+// buckets.json, and a token is revoked by deleting its entry.
+
+export type Scope = "upload" | "quota" | "shares";
+
+export const ALL_SCOPES: readonly Scope[] = ["upload", "quota", "shares"];
+
+const STORE_NAME = "tokens.json";
+const PREFIX = "gp_";
+const ID_LENGTH = 12;
+const SECRET_LENGTH = 32;
+const MAX_NAME_LENGTH = 100;
+const MAX_TOKENS_PER_USER = 50;
+const DAY_MS: number = 24 * 60 * 60 * 1000;
+
+interface StoredToken {
+  name: string;
+  // The [[users]] name the token acts as, and the bucket that user had.
+  // Users from the passwords list are named by their place in it, so the
+  // name alone could come to mean someone else.
+  user: string;
+  bucket: string;
+  scopes: Scope[];
+  hash: string;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+// Whose tokens these are; see StoredToken
+export interface TokenOwner {
+  user: string;
+  bucket: string;
+}
+
+export interface TokenSummary {
+  id: string;
+  name: string;
+  scopes: Scope[];
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+let store: { path: string; tokens: Map<string, StoredToken> } | null = null;
+
+function storePath(): string {
+  return join(config.data_dir, STORE_NAME);
+}
+
+// Reloaded when data_dir changes in the config
+function loadStore(): Map<string, StoredToken> {
+  const path = storePath();
+  if (store?.path === path) {
+    return store.tokens;
+  }
+  let tokens: Map<string, StoredToken>;
+  try {
+    const content = readFileSync(path, "utf-8");
+    tokens = new Map(
+      Object.entries(JSON.parse(content) as Record<string, StoredToken>),
+    );
+  } catch {
+    tokens = new Map();
+  }
+  store = { path, tokens };
+  return tokens;
+}
+
+function saveStore(tokens: Map<string, StoredToken>): void {
+  mkdirSync(config.data_dir, { recursive: true });
+  const tmpPath = `${storePath()}.${nanoid(6)}`;
+  writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(tokens), null, 2), {
+    mode: 0o600,
+  });
+  renameSync(tmpPath, storePath());
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function summarize(id: string, token: StoredToken): TokenSummary {
+  return {
+    id,
+    name: token.name,
+    scopes: token.scopes,
+    createdAt: token.createdAt,
+    expiresAt: token.expiresAt,
+  };
+}
+
+// The user and scopes a token grants, or null if it is unknown, revoked
+// or expired
+export function verifyToken(
+  token: string,
+): { id: string; user: string; bucket: string; scopes: Scope[] } | null {
+  if (
+    !token.startsWith(PREFIX) ||
+    token.length !== PREFIX.length + ID_LENGTH + SECRET_LENGTH
+  ) {
+    return null;
+  }
+  const id = token.slice(PREFIX.length, PREFIX.length + ID_LENGTH);
+  const stored = loadStore().get(id);
+  if (!stored) {
+    return null;
+  }
+  const expected = Buffer.from(stored.hash, "hex");
+  const actual = Buffer.from(hashToken(token), "hex");
+  if (!timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  if (stored.expiresAt !== null && Date.now() > stored.expiresAt) {
+    return null;
+  }
+  return {
+    id,
+    user: stored.user,
+    bucket: stored.bucket,
+    scopes: stored.scopes,
+  };
+}
+
+function ownedBy(token: StoredToken, owner: TokenOwner): boolean {
+  return token.user === owner.user && token.bucket === owner.bucket;
+}
+
+export function listTokens(owner: TokenOwner): TokenSummary[] {
+  return [...loadStore()]
+    .filter(([, token]) => ownedBy(token, owner))
+    .map(([id, token]) => summarize(id, token))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function revokeToken(owner: TokenOwner, id: string): boolean {
+  const tokens = loadStore();
+  const token = tokens.get(id);
+  if (!(token && ownedBy(token, owner))) {
+    return false;
+  }
+  tokens.delete(id);
+  saveStore(tokens);
+  console.log(`Revoked API token ${id} of user ${owner.user}`);
+  return true;
+}
+
+function parseScopes(value: unknown): Scope[] | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+  const scopes = new Set<Scope>();
+  for (const scope of value) {
+    if (!ALL_SCOPES.includes(scope as Scope)) {
+      return null;
+    }
+    scopes.add(scope as Scope);
+  }
+  return ALL_SCOPES.filter((s) => scopes.has(s));
+}
+
+// Empty means the token never expires; returns undefined when invalid
+function parseExpiryDays(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1 || days > 3650) {
+    return;
+  }
+  return Date.now() + days * DAY_MS;
+}
+
+export async function handleCreateToken(
+  req: Request,
+  owner: TokenOwner,
+): Promise<Response> {
+  let body: { name?: unknown; scopes?: unknown; expiryDays?: unknown };
+  try {
+    body = (await req.json()) as typeof body;
+  } catch {
+    return new Response("Invalid JSON", { status: 400 });
+  }
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return new Response("Invalid name", { status: 400 });
+  }
+  const scopes = parseScopes(body.scopes);
+  if (!scopes) {
+    return new Response("Invalid scopes", { status: 400 });
+  }
+  const expiresAt = parseExpiryDays(body.expiryDays);
+  if (expiresAt === undefined) {
+    return new Response("Invalid expiry", { status: 400 });
+  }
+
+  const tokens = loadStore();
+  if (listTokens(owner).length >= MAX_TOKENS_PER_USER) {
+    return new Response("Too many tokens", { status: 409 });
+  }
+  const id = nanoid(ID_LENGTH);
+  const token = PREFIX + id + nanoid(SECRET_LENGTH);
+  const stored: StoredToken = {
+    name,
+    ...owner,
+    scopes,
+    hash: hashToken(token),
+    createdAt: Date.now(),
+    expiresAt,
+  };
+  tokens.set(id, stored);
+  saveStore(tokens);
+  console.log(`Created API token ${id} for user ${owner.user}`);
+  // The only time the token itself is shown
+  return Response.json({ ...summarize(id, stored), token }, { status: 201 });
+}
@@ -0,0 +1,144 @@
+import { readManifest, withShareLock, writeManifest } from "./manifest";
+import { storage } from "./storage";
+import { releaseShare } from "./usage";
+
+// Completed downloads are counted in the manifest. Transfers still running
+// are counted here, so parallel requests can't get past the limit between
+// them; a failed transfer gives its slot back.
+const inFlight: Map<string, number> = new Map();
+
+// Bytes of a file sent by ranges or cut-off transfers, per share, file and
+// client. They count as a download each time they add up to the whole file,
+// which covers resumed downloads without letting a client dodge the count
+// by splitting its requests.
+const TALLY_MS: number = 24 * 60 * 60 * 1000;
+const tallies: Map<string, { bytes: number; updatedAt: number }> = new Map();
+
+export interface ByteTally {
+  // Share, file and client the bytes are credited to
+  key: string;
+  size: number;
+}
+
+export type Admission = "ok" | "busy" | "exhausted";
+
+export function admitDownload(shareDir: string): Promise<Admission> {
+  return withShareLock(shareDir, async () => {
+    const manifest = await readManifest(shareDir);
+    if (!manifest) {
+      return "exhausted";
+    }
+    const active = inFlight.get(shareDir) ?? 0;
+    const { downloads, maxDownloads } = manifest;
+    if (maxDownloads !== null && downloads >= maxDownloads) {
+      return "exhausted";
+    }
+    if (maxDownloads !== null && downloads + active >= maxDownloads) {
+      return "busy";
+    }
+    inFlight.set(shareDir, active + 1);
+    return "ok";
+  });
+}
+
+async function finishDownload(
+  shareDir: string,
+  completed: boolean,
+): Promise<void> {
+  await withShareLock(shareDir, async () => {
+    const active = (inFlight.get(shareDir) ?? 1) - 1;
+    if (active > 0) {
+      inFlight.set(shareDir, active);
+    } else {
+      inFlight.delete(shareDir);
+    }
+    if (!completed) {
+      return;
+    }
+
+    const manifest = await readManifest(shareDir);
+    if (!manifest) {
+      return;
+    }
+    manifest.downloads += 1;
+    if (
+      manifest.maxDownloads !== null &&
+      manifest.downloads >= manifest.maxDownloads
+    ) {
+      await storage().delete(shareDir);
+      await releaseShare(manifest);
+      console.log(`Deleted share after last download: ${shareDir}`);
+      return;
+    }
+    await writeManifest(shareDir, manifest);
+  });
+}
+
+// Whether these bytes complete another whole file's worth
+function creditBytes(tally: ByteTally, sent: number): boolean {
+  const now = Date.now();
+  for (const [key, entry] of tallies) {
+    if (now - entry.updatedAt > TALLY_MS) {
+      tallies.delete(key);
+    }
+  }
+  const total = (tallies.get(tally.key)?.bytes ?? 0) + sent;
+  const complete = tally.size > 0 && total >= tally.size;
+  tallies.set(tally.key, {
+    bytes: complete ? total - tally.size : total,
+    updatedAt: now,
+  });
+  return complete;
+}
+
+// Passes the body through and settles the admitted download once the last
+// byte has been handed over, or when the client goes away before that. A
+// whole body counts when complete; ranges and cut-off file transfers count
+// by the bytes they sent.
+export function countedBody(
+  shareDir: string,
+  source: AsyncIterable<Uint8Array>,
+  tally: ByteTally | null,
+  partial: boolean,
+): ReadableStream<Uint8Array> {
+  const iterator = source[Symbol.asyncIterator]();
+  let sent = 0;
+  let settled = false;
+  const settle = (completed: boolean): void => {
+    if (settled) {
+      return;
+    }
+    settled = true;
+    let counts = completed && !partial;
+    if (!counts && tally) {
+      counts = creditBytes(tally, sent);
+    }
+    finishDownload(shareDir, counts).catch((err: unknown) => {
+      console.error(`Failed to record download of ${shareDir}:`, err);
+    });
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(
+      controller: ReadableStreamDefaultController<Uint8Array>,
+    ): Promise<void> {
+      try {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+          settle(true);
+        } else {
+          sent += value.byteLength;
+          controller.enqueue(value);
+        }
+      } catch (err) {
+        controller.error(err);
+        settle(false);
+      }
+    },
+    async cancel(): Promise<void> {
+      settle(false);
+      await iterator.return?.();
+    },
+  });
+}
@@ -0,0 +1,208 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { config } from "./config";
+import type { ShareManifest } from "./manifest";
+import { escapeHtml, readCookie, renderPage, wantsHtml } from "./pages";
+import {
+  clearFailures,
+  lockedFor,
+  recordFailure,
+  retryAfter,
+  tooManyRequests,
+} from "./ratelimit";
+
+export interface ShareRef {
+  bucket: string;
+  shareId: string;
+}
+
+// Locked carries the milliseconds left of the lockout
+type Verdict = "ok" | "wrong" | { locked: number };
+
+let secret: Buffer | null = null;
+
+// Signs unlock cookies; kept in data_dir so restarts don't log people out
+async function getSecret(): Promise<Buffer> {
+  if (secret) {
+    return secret;
+  }
+  const secretPath = join(config.data_dir, ".secret");
+  const file = Bun.file(secretPath);
+  if (await file.exists()) {
+    secret = Buffer.from(await file.bytes());
+  } else {
+    secret = Buffer.from(crypto.getRandomValues(new Uint8Array(32)));
+    await mkdir(config.data_dir, { recursive: true });
+    await writeFile(secretPath, secret, { mode: 0o600 });
+  }
+  return secret;
+}
+
+export function hashPassphrase(passphrase: string): Promise<string> {
+  return Bun.password.hash(passphrase);
+}
+
+export function sharePath({ bucket, shareId }: ShareRef): string {
+  return `/d/${bucket}/${shareId}`;
+}
+
+function cookieName({ shareId }: ShareRef): string {
+  return `gp_unlock_${shareId}`;
+}
+
+// Bound to the passphrase hash, so a new passphrase invalidates old cookies
+async function unlockToken(
+  share: ShareRef,
+  passphraseHash: string,
+): Promise<string> {
+  return createHmac("sha256", await getSecret())
+    .update(`${sharePath(share)}\n${passphraseHash}`)
+    .digest("hex");
+}
+
+async function hasUnlockCookie(
+  req: Request,
+  share: ShareRef,
+  passphraseHash: string,
+): Promise<boolean> {
+  const supplied = readCookie(req, cookieName(share));
+  if (!supplied) {
+    return false;
+  }
+  const expected = Buffer.from(await unlockToken(share, passphraseHash));
+  const actual = Buffer.from(supplied);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// X-Passphrase for scripts, or the password half of basic auth for curl -u
+function suppliedPassphrase(req: Request): string | null {
+  const header = req.headers.get("X-Passphrase");
+  if (header) {
+    return header;
+  }
+  const auth = req.headers.get("Authorization");
+  if (!auth?.startsWith("Basic ")) {
+    return null;
+  }
+  const decoded = Buffer.from(auth.slice(6), "base64").toString("utf-8");
+  const separator = decoded.indexOf(":");
+  return separator === -1 ? null : decoded.slice(separator + 1);
+}
+
+async function verifyGuess(
+  ip: string,
+  share: ShareRef,
+  passphraseHash: string,
+  guess: string,
+): Promise<Verdict> {
+  // Per share and IP, so guessing at one share doesn't lock others
+  const key = `unlock:${ip}:${sharePath(share)}`;
+  const locked = lockedFor(key);
+  if (locked > 0) {
+    return { locked };
+  }
+
+  if (await Bun.password.verify(guess, passphraseHash)) {
+    clearFailures(key);
+    return "ok";
+  }
+  recordFailure(key);
+  return "wrong";
+}
+
+function unlockPage(
+  error: string | null,
+  status: number,
+  headers: Record<string, string> = {},
+): Response {
+  const message = error ? `<p class="error">${escapeHtml(error)}</p>` : "";
+  return renderPage(
+    "Beskyttet deling",
+    `<h1>Beskyttet deling</h1>
+<p>Denne delingen er beskyttet med passord.</p>
+${message}
+<form method="post">
+<input type="password" name="passphrase" placeholder="Passord" autofocus required>
+<button type="submit">Lås opp</button>
+</form>`,
+    { status, headers },
+  );
+}
+
+// Returns null when the download may go ahead, or the response to send instead
+export async function checkDownloadAccess(
+  req: Request,
+  ip: string,
+  share: ShareRef,
+  manifest: ShareManifest,
+): Promise<Response | null> {
+  const { passphraseHash } = manifest;
+  if (!passphraseHash || (await hasUnlockCookie(req, share, passphraseHash))) {
+    return null;
+  }
+
+  const guess = suppliedPassphrase(req);
+  if (guess === null) {
+    if (wantsHtml(req)) {
+      return unlockPage(null, 401);
+    }
+    return new Response("Passphrase required", {
+      status: 401,
+      headers: { "WWW-Authenticate": 'Basic realm="gravplass"' },
+    });
+  }
+
+  const verdict = await verifyGuess(ip, share, passphraseHash, guess);
+  if (typeof verdict === "object") {
+    return tooManyRequests(verdict.locked);
+  }
+  if (verdict === "wrong") {
+    return new Response("Wrong passphrase", { status: 401 });
+  }
+  return null;
+}
+
+export async function handleUnlock(
+  req: Request,
+  ip: string,
+  share: ShareRef,
+  manifest: ShareManifest,
+): Promise<Response> {
+  const location = sharePath(share);
+  const { passphraseHash } = manifest;
+  if (!passphraseHash) {
+    return new Response(null, { status: 303, headers: { Location: location } });
+  }
+
+  const formData = await req.formData();
+  const guess = formData.get("passphrase");
+  if (typeof guess !== "string" || !guess) {
+    return unlockPage("Skriv inn passordet", 400);
+  }
+
+  const verdict = await verifyGuess(ip, share, passphraseHash, guess);
+  if (typeof verdict === "object") {
+    return unlockPage(
+      "For mange forsøk. Prøv igjen senere.",
+      429,
+      retryAfter(verdict.locked),
+    );
+  }
+  if (verdict === "wrong") {
+    return unlockPage("Feil passord", 401);
+  }
+
+  const maxAge = Math.max(
+    0,
+    Math.floor((manifest.expiresAt - Date.now()) / 1000),
+  );
+  const token = await unlockToken(share, passphraseHash);
+  return new Response(null, {
+    status: 303,
+    headers: {
+      Location: location,
+      "Set-Cookie": `${cookieName(share)}=${token}; Path=${location}; Max-Age=${String(maxAge)}; HttpOnly; SameSite=Lax`,
+    },
+  });
+}
@@ -0,0 +1,128 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync } from "node:fs";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { config } from "./config";
+import { expectedChunkBytes, parseUploadFiles, storeChunk } from "./uploads";
+import { bucketUsage } from "./usage";
+
+const MB: number = 1024 * 1024;
+
+describe("expectedChunkBytes", () => {
+  const session = {
+    chunkSize: 8 * MB,
+    files: [
+      { name: "big.bin", size: 20 * MB },
+      { name: "exact.bin", size: 16 * MB },
+      { name: "empty.txt", size: 0 },
+    ],
+  };
+
+  test("wants full chunks and a short last one", () => {
+    expect(expectedChunkBytes(session, 0, 0)).toBe(8 * MB);
+    expect(expectedChunkBytes(session, 0, 1)).toBe(8 * MB);
+    expect(expectedChunkBytes(session, 0, 2)).toBe(4 * MB);
+    expect(expectedChunkBytes(session, 1, 1)).toBe(8 * MB);
+  });
+
+  test("rejects chunks past the end of a file", () => {
+    expect(expectedChunkBytes(session, 0, 3)).toBeNull();
+    expect(expectedChunkBytes(session, 1, 2)).toBeNull();
+    expect(expectedChunkBytes(session, 2, 0)).toBeNull();
+  });
+
+  test("rejects files the session doesn't have", () => {
+    expect(expectedChunkBytes(session, 3, 0)).toBeNull();
+    expect(expectedChunkBytes(session, -1, 0)).toBeNull();
+    expect(expectedChunkBytes(session, 1.5, 0)).toBeNull();
+  });
+
+  test("rejects negative, fractional and huge chunk indexes", () => {
+    expect(expectedChunkBytes(session, 0, -1)).toBeNull();
+    expect(expectedChunkBytes(session, 0, 0.5)).toBeNull();
+    expect(expectedChunkBytes(session, 0, Number.NaN)).toBeNull();
+    expect(expectedChunkBytes(session, 0, 2 ** 53)).toBeNull();
+  });
+});
+
+describe("parseUploadFiles", () => {
+  test("cleans up the names", () => {
+    expect(
+      parseUploadFiles([
+        { name: "../a.txt", size: 1 },
+        { name: "dir/\u0000b.txt", size: 0 },
+      ]),
+    ).toEqual([
+      { name: "a.txt", size: 1 },
+      { name: "dir/b.txt", size: 0 },
+    ]);
+  });
+
+  test("rejects anything but a list of names and sizes", () => {
+    expect(parseUploadFiles(null)).toBeNull();
+    expect(parseUploadFiles("a.txt")).toBeNull();
+    expect(parseUploadFiles([])).toBeNull();
+    expect(parseUploadFiles([null])).toBeNull();
+    expect(parseUploadFiles([{ name: "a.txt" }])).toBeNull();
+    expect(parseUploadFiles([{ name: 1, size: 1 }])).toBeNull();
+  });
+
+  test("rejects sizes that aren't whole bytes", () => {
+    for (const size of [-1, 0.5, Number.NaN, Infinity, 2 ** 53, "1"]) {
+      expect(parseUploadFiles([{ name: "a.txt", size }])).toBeNull();
+    }
+  });
+
+  test("rejects duplicate and unusable names", () => {
+    expect(
+      parseUploadFiles([
+        { name: "a.txt", size: 1 },
+        { name: "A.TXT", size: 1 },
+      ]),
+    ).toBeNull();
+    expect(parseUploadFiles([{ name: "..", size: 1 }])).toBeNull();
+  });
+});
+
+describe("storeChunk", () => {
+  const dataDir = config.data_dir;
+  const chunk = new Uint8Array(1000).buffer;
+
+  beforeAll(() => {
+    config.data_dir = mkdtempSync(join(tmpdir(), "gravplass-test-"));
+  });
+
+  afterAll(async () => {
+    await rm(config.data_dir, { recursive: true, force: true });
+    config.data_dir = dataDir;
+  });
+
+  test("charges a chunk once, however often it is sent", async () => {
+    expect(
+      await storeChunk("again", "partial/again/0-0.part", chunk, 5000),
+    ).toBe(true);
+    expect(
+      await storeChunk("again", "partial/again/0-0.part", chunk, 5000),
+    ).toBe(true);
+    expect(bucketUsage("again")).toBe(1000);
+  });
+
+  test("charges the same chunk sent twice at once only once", async () => {
+    const target = "partial/parallel/0-0.part";
+    expect(
+      await Promise.all([
+        storeChunk("parallel", target, chunk, 5000),
+        storeChunk("parallel", target, chunk, 5000),
+      ]),
+    ).toEqual([true, true]);
+    expect(bucketUsage("parallel")).toBe(1000);
+  });
+
+  test("refuses a chunk over the limit and charges nothing", async () => {
+    expect(
+      await storeChunk("small", "partial/small/0-0.part", chunk, 500),
+    ).toBe(false);
+    expect(bucketUsage("small")).toBe(0);
+  });
+});
@@ -0,0 +1,605 @@
+import { join } from "node:path";
+import { nanoid } from "nanoid";
+import type { Account } from "./buckets";
+import {
+  checkSharePolicy,
+  parseEncryptedMeta,
+  parseExpiryHours,
+  parseMaxDownloads,
+  requireScope,
+} from "./buckets";
+import { isSafeId, safeRelativePaths } from "./filenames";
+import type { ShareManifest, WrittenFile } from "./manifest";
+import {
+  appendFiles,
+  createShare,
+  hashing,
+  readManifest,
+  withShareLock,
+} from "./manifest";
+import { partialDir, storage, uploadsDir, withKeyLock } from "./storage";
+import { hashPassphrase } from "./unlock";
+import { addUsage, bucketUsage, partialBytes, reserve } from "./usage";
+
+const CHUNK_SIZE: number = 8 * 1024 * 1024;
+const ABANDONED_UPLOAD_MS: number = 24 * 60 * 60 * 1000;
+
+export interface UploadFile {
+  name: string;
+  size: number;
+}
+
+export interface ChunkTarget {
+  uploadId: string;
+  fileIndex: number;
+  chunkIndex: number;
+}
+
+export interface UploadSession {
+  id: string;
+  bucket: string;
+  chunkSize: number;
+  maxDownloads: number | null;
+  ttlMs: number;
+  files: UploadFile[];
+  encryptedMeta: string | null;
+  // Set when an outsider is uploading through one of the bucket's file
+  // requests
+  requestId?: string;
+  // Set when the files are being added to an existing share
+  shareId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Guards against a double-clicked finalize assembling the same session twice
+const finalizing: Set<string> = new Set();
+
+function sessionDir(bucket: string, uploadId: string): string {
+  return join(partialDir(), bucket, uploadId);
+}
+
+function chunkCount(file: UploadFile, chunkSize: number): number {
+  return Math.ceil(file.size / chunkSize);
+}
+
+function chunkPath(dir: string, fileIndex: number, chunkIndex: number): string {
+  return join(dir, `${String(fileIndex)}-${String(chunkIndex)}.part`);
+}
+
+async function* joinChunks(
+  dir: string,
+  fileIndex: number,
+  count: number,
+): AsyncGenerator<Uint8Array> {
+  for (let c = 0; c < count; c++) {
+    yield* storage().stream(chunkPath(dir, fileIndex, c));
+  }
+}
+
+export async function readSession(
+  bucket: string,
+  uploadId: string,
+): Promise<UploadSession | null> {
+  if (!isSafeId(uploadId)) {
+    return null;
+  }
+  const data = await storage().get(
+    join(sessionDir(bucket, uploadId), "session.json"),
+  );
+  return data
+    ? (JSON.parse(new TextDecoder().decode(data)) as UploadSession)
+    : null;
+}
+
+async function writeSession(session: UploadSession): Promise<void> {
+  const dir = sessionDir(session.bucket, session.id);
+  await storage().put(join(dir, "session.json"), JSON.stringify(session));
+}
+
+async function receivedChunks(session: UploadSession): Promise<number[][]> {
+  const received: number[][] = session.files.map(() => []);
+  const entries = await storage().list(sessionDir(session.bucket, session.id));
+  for (const entry of entries) {
+    const match = /^(\d+)-(\d+)\.part$/.exec(entry.name);
+    if (match) {
+      received[Number(match[1])]?.push(Number(match[2]));
+    }
+  }
+  for (const chunks of received) {
+    chunks.sort((a, b) => a - b);
+  }
+  return received;
+}
+
+export function parseUploadFiles(value: unknown): UploadFile[] | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+  const files: UploadFile[] = [];
+  for (const item of value as unknown[]) {
+    const { name, size } = (item ?? {}) as Partial<UploadFile>;
+    if (
+      typeof name !== "string" ||
+      typeof size !== "number" ||
+      !Number.isSafeInteger(size) ||
+      size < 0
+    ) {
+      return null;
+    }
+    files.push({ name, size });
+  }
+
+  // Names are paths relative to the share when a folder was uploaded
+  const paths = safeRelativePaths(files.map((f) => f.name));
+  return paths
+    ? files.map((f, i) => ({ name: paths[i] ?? f.name, size: f.size }))
+    : null;
+}
+
+function sessionStatus(
+  session: UploadSession,
+  received: number[][],
+): Record<string, unknown> {
+  return {
+    id: session.id,
+    chunkSize: session.chunkSize,
+    files: session.files,
+    received,
+  };
+}
+
+interface CreateUploadBody {
+  files?: unknown;
+  maxDownloads?: unknown;
+  burn?: unknown;
+  expiryHours?: unknown;
+  // Whether a passphrase will be sent at finalize
+  protected?: unknown;
+  encryptedMeta?: unknown;
+  // Adds the files to this share instead of making a new one
+  shareId?: unknown;
+}
+
+export async function handleCreateUpload(
+  req: Request,
+  account: Account,
+): Promise<Response> {
+  let body: CreateUploadBody;
+  try {
+    body = (await req.json()) as CreateUploadBody;
+  } catch {
+    return new Response("Invalid JSON", { status: 400 });
+  }
+
+  const files = parseUploadFiles(body.files);
+  if (!files) {
+    return new Response("Invalid file list", { status: 400 });
+  }
+  if (body.shareId !== undefined) {
+    return await startAddition(account, files, body.shareId);
+  }
+
+  const ttlMs = parseExpiryHours(body.expiryHours, account);
+  if (ttlMs === null) {
+    return new Response("Invalid expiry", { status: 400 });
+  }
+
+  const maxDownloads = parseMaxDownloads(body.maxDownloads, body.burn);
+  if (maxDownloads === undefined) {
+    return new Response("Invalid download limit", { status: 400 });
+  }
+
+  const encryptedMeta = parseEncryptedMeta(body.encryptedMeta);
+  if (encryptedMeta === undefined) {
+    return new Response("Invalid encrypted file list", { status: 400 });
+  }
+
+  const violation = checkSharePolicy(account, {
+    maxDownloads,
+    protected: body.protected === true,
+    encrypted: encryptedMeta !== null,
+    fileCount: files.length,
+  });
+  if (violation) {
+    return new Response(violation, { status: 403 });
+  }
+
+  return await startUpload(account, files, {
+    maxDownloads,
+    ttlMs,
+    encryptedMeta,
+  });
+}
+
+// Why the files can't go into this share, or null if they can. The server
+// can't update the file list of an end-to-end encrypted share, and new
+// names may not clash with those already there.
+function additionRefused(
+  manifest: ShareManifest,
+  files: UploadFile[],
+): Response | null {
+  if (manifest.encryptedMeta !== undefined) {
+    return new Response("Encrypted shares can't be changed", { status: 409 });
+  }
+  const names = [...manifest.files, ...files].map((f) => f.name);
+  if (!safeRelativePaths(names)) {
+    return new Response("A file with that name is already in the share", {
+      status: 409,
+    });
+  }
+  return null;
+}
+
+// Changing a share's files is share management as much as uploading, so
+// a token needs both scopes. The share keeps its limits and expiry.
+async function startAddition(
+  account: Account,
+  files: UploadFile[],
+  shareId: unknown,
+): Promise<Response> {
+  const denied = requireScope(account, "shares");
+  if (denied) {
+    return denied;
+  }
+  if (typeof shareId !== "string" || !isSafeId(shareId)) {
+    return new Response("Invalid share", { status: 400 });
+  }
+  const manifest = await readManifest(
+    join(uploadsDir(), account.bucket, shareId),
+  );
+  if (!manifest) {
+    return new Response("Not Found", { status: 404 });
+  }
+  const refused = additionRefused(manifest, files);
+  if (refused) {
+    return refused;
+  }
+  return await startUpload(account, files, {
+    maxDownloads: manifest.maxDownloads,
+    ttlMs: manifest.expiresAt - manifest.createdAt,
+    encryptedMeta: null,
+    shareId,
+  });
+}
+
+// Checks the files against the account's limits and opens a session for
+// their chunks
+export async function startUpload(
+  account: Account,
+  files: UploadFile[],
+  share: Pick<
+    UploadSession,
+    "maxDownloads" | "ttlMs" | "encryptedMeta" | "requestId" | "shareId"
+  >,
+): Promise<Response> {
+  const { bucket } = account;
+  if (files.some((f) => f.size > account.maxFileBytes)) {
+    const maxMb = Math.floor(account.maxFileBytes / 1024 / 1024);
+    return new Response(`File too large. Max ${String(maxMb)}MB.`, {
+      status: 413,
+    });
+  }
+
+  // Reject up front what can never fit, so nobody uploads 90% for nothing
+  const uploadSize = files.reduce((sum, f) => sum + f.size, 0);
+  const currentSize = bucketUsage(bucket);
+  const maxBytes = account.maxBucketBytes;
+  if (currentSize + uploadSize > maxBytes) {
+    const availableMb = Math.floor((maxBytes - currentSize) / 1024 / 1024);
+    return new Response(`Quota exceeded. ${availableMb}MB available.`, {
+      status: 413,
+    });
+  }
+
+  const now = Date.now();
+  const session: UploadSession = {
+    id: nanoid(16),
+    bucket,
+    chunkSize: CHUNK_SIZE,
+    ...share,
+    files,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await writeSession(session);
+
+  const received: number[][] = files.map(() => []);
+  return Response.json(sessionStatus(session, received));
+}
+
+export async function handleUploadStatus(
+  bucket: string,
+  uploadId: string,
+): Promise<Response> {
+  const session = await readSession(bucket, uploadId);
+  if (!session) {
+    return new Response("Not Found", { status: 404 });
+  }
+  return Response.json(sessionStatus(session, await receivedChunks(session)));
+}
+
+// How long a chunk must be, or null if the session has no such chunk.
+// Every chunk but a file's last is exactly chunkSize.
+export function expectedChunkBytes(
+  session: Pick<UploadSession, "files" | "chunkSize">,
+  fileIndex: number,
+  chunkIndex: number,
+): number | null {
+  const file = session.files[fileIndex];
+  if (
+    !(file && Number.isSafeInteger(chunkIndex)) ||
+    chunkIndex < 0 ||
+    chunkIndex >= chunkCount(file, session.chunkSize)
+  ) {
+    return null;
+  }
+  return Math.min(
+    session.chunkSize,
+    file.size - chunkIndex * session.chunkSize,
+  );
+}
+
+// Every chunk is charged against the bucket as it arrives; a chunk sent
+// again only needs room for the difference. The same chunk sent twice at
+// once is written one after the other, so it is only charged once. False
+// if it doesn't fit.
+export async function storeChunk(
+  bucket: string,
+  target: string,
+  data: ArrayBuffer,
+  limit: number,
+): Promise<boolean> {
+  return await withKeyLock(target, async () => {
+    const alreadyStored = (await storage().stat(target))?.size ?? 0;
+    const reservation = reserve(bucket, data.byteLength - alreadyStored, limit);
+    if (!reservation) {
+      return false;
+    }
+    // Storage writes are atomic, so an interrupted one never looks complete
+    try {
+      const written = await storage().put(target, new Uint8Array(data));
+      reservation.commit(written - alreadyStored);
+    } catch (err) {
+      reservation.release();
+      throw err;
+    }
+    return true;
+  });
+}
+
+export async function handleUploadChunk(
+  req: Request,
+  account: Account,
+  { uploadId, fileIndex, chunkIndex }: ChunkTarget,
+): Promise<Response> {
+  const { bucket } = account;
+  const session = await readSession(bucket, uploadId);
+  if (!session) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const expected = expectedChunkBytes(session, fileIndex, chunkIndex);
+  if (expected === null) {
+    return new Response("Invalid chunk", { status: 400 });
+  }
+  const data = await req.arrayBuffer();
+  if (data.byteLength !== expected) {
+    return new Response(`Expected ${String(expected)} bytes`, { status: 400 });
+  }
+
+  const target = chunkPath(sessionDir(bucket, uploadId), fileIndex, chunkIndex);
+  if (!(await storeChunk(bucket, target, data, account.maxBucketBytes))) {
+    return new Response("Quota exceeded", { status: 413 });
+  }
+
+  session.updatedAt = Date.now();
+  await writeSession(session);
+
+  return new Response(null, { status: 204 });
+}
+
+// The hashes let the uploader check what recipients will get
+export function uploadResult(
+  bucket: string,
+  shareId: string,
+  manifest: ShareManifest,
+): Response {
+  return Response.json({
+    url: `/d/${bucket}/${shareId}`,
+    files: manifest.files.map(({ name, size, sha256 }) => ({
+      name,
+      size,
+      sha256,
+    })),
+  });
+}
+
+// Joins each file's chunks into shareDir, hashing them on the way
+async function assembleFiles(
+  session: UploadSession,
+  shareDir: string,
+): Promise<WrittenFile[]> {
+  const dir = sessionDir(session.bucket, session.id);
+  const written: WrittenFile[] = [];
+  for (const [fileIndex, file] of session.files.entries()) {
+    const hasher = new Bun.CryptoHasher("sha256");
+    const chunks = joinChunks(
+      dir,
+      fileIndex,
+      chunkCount(file, session.chunkSize),
+    );
+    await storage().put(join(shareDir, file.name), hashing(chunks, hasher));
+    written.push({ name: file.name, sha256: hasher.digest("hex") });
+  }
+  return written;
+}
+
+// Under the share's lock, so a download, removal or deletion sees the file
+// list from before or after, never halfway. The share was checked when the
+// upload started but may have changed or gone since.
+async function finalizeAddition(
+  session: UploadSession,
+  shareId: string,
+): Promise<Response> {
+  const { bucket } = session;
+  const shareDir = join(uploadsDir(), bucket, shareId);
+  const result = await withShareLock(
+    shareDir,
+    async (): Promise<ShareManifest | Response> => {
+      const manifest = await readManifest(shareDir);
+      if (!manifest) {
+        return new Response("Not Found", { status: 404 });
+      }
+      const refused = additionRefused(manifest, session.files);
+      if (refused) {
+        return refused;
+      }
+      const written = await assembleFiles(session, shareDir);
+      return await appendFiles(shareDir, manifest, written);
+    },
+  );
+  if (result instanceof Response) {
+    return result;
+  }
+
+  // The chunks' bytes now belong to the share, so usage stays the same
+  await storage().delete(sessionDir(bucket, session.id));
+  console.log(
+    `Added ${String(session.files.length)} files to share ${bucket}/${shareId}`,
+  );
+  return uploadResult(bucket, shareId, result);
+}
+
+export async function handleFinalizeUpload(
+  req: Request,
+  account: Account,
+  uploadId: string,
+): Promise<Response> {
+  const { bucket } = account;
+  const session = await readSession(bucket, uploadId);
+  if (!session || finalizing.has(uploadId)) {
+    return new Response("Not Found", { status: 404 });
+  }
+  // Claimed before anything else is awaited, so a second finalize of the
+  // same session can't get past the check above in the meantime
+  finalizing.add(uploadId);
+  try {
+    return await finalizeSession(req, account, session);
+  } finally {
+    finalizing.delete(uploadId);
+  }
+}
+
+// The passphrase arrives only at finalize so it is never written to disk
+// in plain text alongside the session
+async function finalizeSession(
+  req: Request,
+  account: Account,
+  session: UploadSession,
+): Promise<Response> {
+  const { bucket } = account;
+  let passphrase: unknown;
+  try {
+    ({ passphrase } = (await req.json()) as { passphrase?: unknown });
+  } catch {
+    // No body means no passphrase
+  }
+  // What comes in through a file request is only listed for the bucket's
+  // owner, so it needs no passphrase, and a share being added to already
+  // has its protection
+  const violation =
+    session.requestId === undefined &&
+    session.shareId === undefined &&
+    checkSharePolicy(account, {
+      maxDownloads: session.maxDownloads,
+      protected: typeof passphrase === "string" && passphrase !== "",
+      encrypted: typeof session.encryptedMeta === "string",
+      fileCount: session.files.length,
+    });
+  if (violation) {
+    return new Response(violation, { status: 403 });
+  }
+
+  const received = await receivedChunks(session);
+  const incomplete = session.files.some(
+    (file, i) =>
+      (received[i]?.length ?? 0) !== chunkCount(file, session.chunkSize),
+  );
+  if (incomplete) {
+    return Response.json(
+      { error: "Upload incomplete", ...sessionStatus(session, received) },
+      { status: 409 },
+    );
+  }
+
+  if (session.shareId !== undefined) {
+    return await finalizeAddition(session, session.shareId);
+  }
+  const shareId = nanoid(8);
+  const shareDir = join(uploadsDir(), bucket, shareId);
+  const written = await assembleFiles(session, shareDir);
+
+  const manifest = await createShare(shareDir, written, {
+    bucket,
+    maxDownloads: session.maxDownloads,
+    createdAt: Date.now(),
+    ttlMs: session.ttlMs,
+    // Sessions from before end-to-end encryption don't have it
+    encryptedMeta: session.encryptedMeta ?? null,
+    requestId: session.requestId,
+    passphraseHash:
+      typeof passphrase === "string" && passphrase
+        ? await hashPassphrase(passphrase)
+        : undefined,
+  });
+
+  // The chunks' bytes now belong to the share, so usage stays the same
+  await storage().delete(sessionDir(bucket, session.id));
+  return uploadResult(bucket, shareId, manifest);
+}
+
+// The bucket's uploads still in progress, leaving out abandoned ones the
+// cleanup will take
+export async function openSessions(bucket: string): Promise<UploadSession[]> {
+  const now = Date.now();
+  const sessions: UploadSession[] = [];
+  for (const { name } of await storage().list(join(partialDir(), bucket))) {
+    const session = await readSession(bucket, name);
+    if (session && now - session.updatedAt <= ABANDONED_UPLOAD_MS) {
+      sessions.push(session);
+    }
+  }
+  return sessions;
+}
+
+export async function cleanupAbandonedUploads(): Promise<number> {
+  const now = Date.now();
+  let deleted = 0;
+
+  try {
+    const buckets = await storage().list(partialDir());
+    for (const { name: bucket } of buckets) {
+      const bucketPath = join(partialDir(), bucket);
+      const uploads = await storage().list(bucketPath);
+
+      for (const { name: uploadId } of uploads) {
+        try {
+          const session = await readSession(bucket, uploadId);
+          if (!session || now - session.updatedAt > ABANDONED_UPLOAD_MS) {
+            const freed = await partialBytes(join(bucketPath, uploadId));
+            await storage().delete(join(bucketPath, uploadId));
+            addUsage(bucket, -freed);
+            console.log(`Deleted abandoned upload: ${bucket}/${uploadId}`);
+            deleted += 1;
+          }
+        } catch {
+          // Skip if can't read
+        }
+      }
+    }
+  } catch {
+    // partial dir doesn't exist yet
+  }
+  return deleted;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, test } from "bun:test";
+import { addUsage, bucketUsage, reserve } from "./usage";
+
+describe("reserve", () => {
+  test("holds the bytes until committed or released", () => {
+    const reservation = reserve("held", 100, 1000);
+    expect(reservation).not.toBeNull();
+    expect(bucketUsage("held")).toBe(100);
+    reservation?.release();
+    expect(bucketUsage("held")).toBe(0);
+  });
+
+  test("charges what was written, not what was reserved", () => {
+    reserve("committed", 100, 1000)?.commit(60);
+    expect(bucketUsage("committed")).toBe(60);
+  });
+
+  test("refuses what doesn't fit next to stored and reserved bytes", () => {
+    addUsage("full", 600);
+    const first = reserve("full", 300, 1000);
+    expect(first).not.toBeNull();
+    expect(reserve("full", 200, 1000)).toBeNull();
+    first?.release();
+    expect(reserve("full", 200, 1000)).not.toBeNull();
+  });
+
+  test("settles only once", () => {
+    const reservation = reserve("once", 100, 1000);
+    reservation?.commit(100);
+    reservation?.commit(100);
+    reservation?.release();
+    expect(bucketUsage("once")).toBe(100);
+  });
+
+  test("never lets usage go below zero", () => {
+    addUsage("negative", 10);
+    addUsage("negative", -50);
+    expect(bucketUsage("negative")).toBe(0);
+  });
+});
@@ -0,0 +1,128 @@
+import { join } from "node:path";
+import { clearBlobRefs, holdBlobs, releaseBlobs } from "./blobs";
+import type { ShareManifest } from "./manifest";
+import { readManifest } from "./manifest";
+import { partialDir, storage, uploadsDir } from "./storage";
+
+// Bytes used per bucket, kept up to date as uploads are written and shares
+// deleted so a quota check never walks the disk. What counts is the files
+// in finished shares and the chunks of uploads in progress; manifests,
+// thumbnails and shares that never got a manifest don't. A file counts in
+// full even when its content is stored once for several shares, so what a
+// bucket may hold doesn't depend on what others upload. Rebuilt from disk
+// at startup, together with the blob references.
+
+interface BucketUsage {
+  stored: number;
+  // Taken before writing, so parallel uploads can't both squeeze in
+  reserved: number;
+}
+
+export interface Reservation {
+  // Charges what was actually written in place of the reserved amount
+  commit: (bytes: number) => void;
+  release: () => void;
+}
+
+const usage: Map<string, BucketUsage> = new Map();
+
+function entryFor(bucket: string): BucketUsage {
+  let entry = usage.get(bucket);
+  if (!entry) {
+    entry = { stored: 0, reserved: 0 };
+    usage.set(bucket, entry);
+  }
+  return entry;
+}
+
+export function bucketUsage(bucket: string): number {
+  const entry = usage.get(bucket);
+  return entry ? entry.stored + entry.reserved : 0;
+}
+
+// Negative when something was deleted
+export function addUsage(bucket: string, bytes: number): void {
+  const entry = entryFor(bucket);
+  entry.stored = Math.max(0, entry.stored + bytes);
+}
+
+export function shareBytes(manifest: ShareManifest): number {
+  return manifest.files.reduce((sum, f) => sum + f.size, 0);
+}
+
+// Gives a deleted share's bytes back to its bucket and drops its hold on
+// the blobs
+export async function releaseShare(manifest: ShareManifest): Promise<void> {
+  addUsage(manifest.bucket, -shareBytes(manifest));
+  await releaseBlobs(manifest.files);
+}
+
+// After a purge only reservations of uploads still running are left
+export function clearUsage(bucket: string): void {
+  entryFor(bucket).stored = 0;
+}
+
+// Null if the bytes don't fit under the limit
+export function reserve(
+  bucket: string,
+  bytes: number,
+  limit: number,
+): Reservation | null {
+  const entry = entryFor(bucket);
+  if (entry.stored + entry.reserved + bytes > limit) {
+    return null;
+  }
+  entry.reserved += bytes;
+  let settled = false;
+  const settle = (): void => {
+    if (!settled) {
+      settled = true;
+      entry.reserved -= bytes;
+    }
+  };
+  return {
+    commit: (written: number): void => {
+      if (!settled) {
+        settle();
+        addUsage(bucket, written);
+      }
+    },
+    release: settle,
+  };
+}
+
+async function listNames(prefix: string): Promise<string[]> {
+  return (await storage().list(prefix)).map((e) => e.name);
+}
+
+// Chunk files only; the session file and half-written temporaries are not
+// charged
+export async function partialBytes(sessionDir: string): Promise<number> {
+  const entries = await storage().list(sessionDir);
+  return entries
+    .filter((e) => e.name.endsWith(".part"))
+    .reduce((sum, e) => sum + e.size, 0);
+}
+
+export async function reconcileUsage(): Promise<void> {
+  usage.clear();
+  clearBlobRefs();
+  for (const bucket of await listNames(uploadsDir())) {
+    for (const shareId of await listNames(join(uploadsDir(), bucket))) {
+      const manifest = await readManifest(join(uploadsDir(), bucket, shareId));
+      if (manifest) {
+        addUsage(bucket, shareBytes(manifest));
+        holdBlobs(manifest.files);
+      }
+    }
+  }
+  for (const bucket of await listNames(partialDir())) {
+    for (const uploadId of await listNames(join(partialDir(), bucket))) {
+      addUsage(
+        bucket,
+        await partialBytes(join(partialDir(), bucket, uploadId)),
+      );
+    }
+  }
+  console.log(`Usage index rebuilt for ${String(usage.size)} buckets`);
+}
@@ -0,0 +1,224 @@
+import { crc32 } from "node:zlib";
+import { storage } from "./storage";
+
+// A store-only (uncompressed) zip writer. Without compression the exact
+// size is known before the first byte, so it can be sent as Content-Length,
+// and the same share always produces the same bytes. Entries use data
+// descriptors so CRCs can be computed while streaming, and switch to ZIP64
+// once sizes or offsets pass 4 GiB.
+
+export interface ZipEntry {
+  // Path inside the archive, "/"-separated
+  name: string;
+  // Storage key, or the bytes themselves for a small generated file
+  source: string | Uint8Array;
+  size: number;
+}
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+const FLAGS = 0x0808; // data descriptor, UTF-8 names
+const UNIX_FILE_MODE = 0o100644;
+
+interface Layout {
+  entry: ZipEntry;
+  name: Buffer;
+  offset: number;
+  zip64: boolean;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getUTCFullYear(), 1980);
+  return {
+    time:
+      (date.getUTCHours() << 11) |
+      (date.getUTCMinutes() << 5) |
+      Math.floor(date.getUTCSeconds() / 2),
+    date:
+      ((year - 1980) << 9) |
+      ((date.getUTCMonth() + 1) << 5) |
+      date.getUTCDate(),
+  };
+}
+
+function localHeaderSize(layout: Layout): number {
+  return 30 + layout.name.length + (layout.zip64 ? 20 : 0);
+}
+
+function descriptorSize(layout: Layout): number {
+  return layout.zip64 ? 24 : 16;
+}
+
+function centralEntrySize(layout: Layout): number {
+  return 46 + layout.name.length + (layout.zip64 ? 28 : 0);
+}
+
+function plan(entries: ZipEntry[]): {
+  layouts: Layout[];
+  centralOffset: number;
+  centralSize: number;
+  zip64End: boolean;
+} {
+  const layouts: Layout[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const layout: Layout = {
+      entry,
+      name: Buffer.from(entry.name, "utf-8"),
+      offset,
+      zip64: entry.size >= MAX_32 || offset >= MAX_32,
+    };
+    layouts.push(layout);
+    offset += localHeaderSize(layout) + entry.size + descriptorSize(layout);
+  }
+  const centralSize = layouts.reduce((sum, l) => sum + centralEntrySize(l), 0);
+  return {
+    layouts,
+    centralOffset: offset,
+    centralSize,
+    zip64End:
+      layouts.length >= MAX_16 ||
+      offset >= MAX_32 ||
+      centralSize >= MAX_32 ||
+      layouts.some((l) => l.zip64),
+  };
+}
+
+export function zipSize(entries: ZipEntry[]): number {
+  const { centralOffset, centralSize, zip64End } = plan(entries);
+  return centralOffset + centralSize + (zip64End ? 56 + 20 : 0) + 22;
+}
+
+function localHeader(
+  layout: Layout,
+  stamp: { time: number; date: number },
+): Buffer {
+  const header = Buffer.alloc(localHeaderSize(layout));
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(layout.zip64 ? 45 : 20, 4);
+  header.writeUInt16LE(FLAGS, 6);
+  header.writeUInt16LE(0, 8); // stored
+  header.writeUInt16LE(stamp.time, 10);
+  header.writeUInt16LE(stamp.date, 12);
+  // CRC and sizes follow in the data descriptor
+  header.writeUInt32LE(0, 14);
+  header.writeUInt32LE(layout.zip64 ? MAX_32 : 0, 18);
+  header.writeUInt32LE(layout.zip64 ? MAX_32 : 0, 22);
+  header.writeUInt16LE(layout.name.length, 26);
+  header.writeUInt16LE(layout.zip64 ? 20 : 0, 28);
+  layout.name.copy(header, 30);
+  if (layout.zip64) {
+    const extra = 30 + layout.name.length;
+    header.writeUInt16LE(0x0001, extra);
+    header.writeUInt16LE(16, extra + 2);
+    // Sizes are zero here as well; the descriptor has them
+  }
+  return header;
+}
+
+function descriptor(layout: Layout, crc: number): Buffer {
+  const buf = Buffer.alloc(descriptorSize(layout));
+  buf.writeUInt32LE(0x08074b50, 0);
+  buf.writeUInt32LE(crc, 4);
+  if (layout.zip64) {
+    buf.writeBigUInt64LE(BigInt(layout.entry.size), 8);
+    buf.writeBigUInt64LE(BigInt(layout.entry.size), 16);
+  } else {
+    buf.writeUInt32LE(layout.entry.size, 8);
+    buf.writeUInt32LE(layout.entry.size, 12);
+  }
+  return buf;
+}
+
+function centralEntry(
+  layout: Layout,
+  crc: number,
+  stamp: { time: number; date: number },
+): Buffer {
+  const { zip64, entry, name } = layout;
+  const buf = Buffer.alloc(centralEntrySize(layout));
+  const version = zip64 ? 45 : 20;
+  buf.writeUInt32LE(0x02014b50, 0);
+  buf.writeUInt16LE((3 << 8) | version, 4); // made by Unix
+  buf.writeUInt16LE(version, 6);
+  buf.writeUInt16LE(FLAGS, 8);
+  buf.writeUInt16LE(0, 10);
+  buf.writeUInt16LE(stamp.time, 12);
+  buf.writeUInt16LE(stamp.date, 14);
+  buf.writeUInt32LE(crc, 16);
+  buf.writeUInt32LE(zip64 ? MAX_32 : entry.size, 20);
+  buf.writeUInt32LE(zip64 ? MAX_32 : entry.size, 24);
+  buf.writeUInt16LE(name.length, 28);
+  buf.writeUInt16LE(zip64 ? 28 : 0, 30);
+  buf.writeUInt32LE((UNIX_FILE_MODE << 16) >>> 0, 38);
+  buf.writeUInt32LE(zip64 ? MAX_32 : layout.offset, 42);
+  name.copy(buf, 46);
+  if (zip64) {
+    const extra = 46 + name.length;
+    buf.writeUInt16LE(0x0001, extra);
+    buf.writeUInt16LE(24, extra + 2);
+    buf.writeBigUInt64LE(BigInt(entry.size), extra + 4);
+    buf.writeBigUInt64LE(BigInt(entry.size), extra + 12);
+    buf.writeBigUInt64LE(BigInt(layout.offset), extra + 20);
+  }
+  return buf;
+}
+
+function endRecords(
+  count: number,
+  centralOffset: number,
+  centralSize: number,
+  zip64End: boolean,
+): Buffer {
+  const end = Buffer.alloc((zip64End ? 56 + 20 : 0) + 22);
+  let pos = 0;
+  if (zip64End) {
+    end.writeUInt32LE(0x06064b50, 0);
+    end.writeBigUInt64LE(44n, 4);
+    end.writeUInt16LE((3 << 8) | 45, 12);
+    end.writeUInt16LE(45, 14);
+    end.writeBigUInt64LE(BigInt(count), 24);
+    end.writeBigUInt64LE(BigInt(count), 32);
+    end.writeBigUInt64LE(BigInt(centralSize), 40);
+    end.writeBigUInt64LE(BigInt(centralOffset), 48);
+    // Locator pointing back at the record above
+    end.writeUInt32LE(0x07064b50, 56);
+    end.writeBigUInt64LE(BigInt(centralOffset + centralSize), 64);
+    end.writeUInt32LE(1, 72);
+    pos = 76;
+  }
+  end.writeUInt32LE(0x06054b50, pos);
+  end.writeUInt16LE(Math.min(count, MAX_16), pos + 8);
+  end.writeUInt16LE(Math.min(count, MAX_16), pos + 10);
+  end.writeUInt32LE(Math.min(centralSize, MAX_32), pos + 12);
+  end.writeUInt32LE(Math.min(centralOffset, MAX_32), pos + 16);
+  return end;
+}
+
+export async function* storedZip(
+  entries: ZipEntry[],
+  modified: Date,
+): AsyncGenerator<Uint8Array> {
+  const { layouts, centralOffset, centralSize, zip64End } = plan(entries);
+  const stamp = dosDateTime(modified);
+  const crcs: number[] = [];
+
+  for (const layout of layouts) {
+    yield localHeader(layout, stamp);
+    let crc = 0;
+    const { source } = layout.entry;
+    const chunks =
+      typeof source === "string" ? storage().stream(source) : [source];
+    for await (const chunk of chunks) {
+      crc = crc32(chunk, crc);
+      yield chunk;
+    }
+    crcs.push(crc);
+    yield descriptor(layout, crc);
+  }
+
+  yield Buffer.concat(
+    layouts.map((layout, i) => centralEntry(layout, crcs[i] ?? 0, stamp)),
+  );
+  yield endRecords(layouts.length, centralOffset, centralSize, zip64End);
+}